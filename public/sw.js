@@ -0,0 +1,92 @@
+/**
+ * Offline cache for Finger Camera
+ * Pages are fetched network-first so a new deployment shows up right away.
+ * Hashed build assets and the versioned MediaPipe runtime and model never
+ * change under the same URL, so they are served cache-first. Everything
+ * else same-origin (sound, icons) is served from cache and refreshed behind.
+ * The build's bundle and the MediaPipe files are precached from the manifest
+ * the Vite build writes, since the first page load isn't controlled yet.
+ */
+
+const CACHE_NAME = 'finger-camera-v1';
+const SCOPE = new URL(self.registration.scope).pathname;
+const IMMUTABLE_PREFIXES = [`${SCOPE}assets/`, `${SCOPE}mediapipe/`];
+const PRECACHE = [SCOPE, `${SCOPE}sound.mp3`, `${SCOPE}fukuma-mizushi.wav`];
+// Written by the precache-manifest plugin in vite.config.ts
+const PRECACHE_MANIFEST = `${SCOPE}precache-manifest.json`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    precacheList()
+      .then((urls) => caches.open(CACHE_NAME).then((cache) => cache.addAll(urls)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (IMMUTABLE_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+async function precacheList() {
+  const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${PRECACHE_MANIFEST}: ${response.status}`);
+  }
+  const files = await response.json();
+  return [...PRECACHE, ...files.map((file) => `${SCOPE}${file}`)];
+}
+
+// Partial (206) and error responses can't be cached
+function store(request, response) {
+  if (response.status !== 200) return Promise.resolve();
+  const copy = response.clone();
+  return caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    await store(request, response);
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) ?? (await caches.match(SCOPE));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await store(request, response);
+  return response;
+}
+
+async function staleWhileRevalidate(request, event) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  const update = fetch(request).then((response) => store(request, response).then(() => response));
+  if (cached) {
+    event.waitUntil(update.catch(() => undefined));
+    return cached;
+  }
+  return update;
+}
@@ -0,0 +1,77 @@
+/**
+ * Copy the MediaPipe WASM runtime from the installed @mediapipe/tasks-vision
+ * and download the hand landmarker models into public/mediapipe, so the app
+ * serves both itself instead of pulling them from a CDN at runtime.
+ * Paths are versioned, so a dependency bump never mixes old and new files.
+ */
+
+import { copyFile, mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const packageDir = join(root, 'node_modules', '@mediapipe', 'tasks-vision');
+const outputDir = join(root, 'public', 'mediapipe');
+
+// Keep in sync with HAND_LANDMARKER_MODELS in src/mediapipe-assets.ts
+const MODELS = {
+  full: 'hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+const MODEL_ROOT = 'https://storage.googleapis.com/mediapipe-models';
+
+async function exists(path) {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  const { version } = JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf8'));
+  const target = join(outputDir, 'tasks-vision', version, 'wasm');
+  if (await exists(target)) return;
+
+  // Drop runtimes from other versions so public/ doesn't grow with every bump
+  await rm(join(outputDir, 'tasks-vision'), { recursive: true, force: true });
+  await mkdir(target, { recursive: true });
+  for (const file of await readdir(join(packageDir, 'wasm'))) {
+    await copyFile(join(packageDir, 'wasm', file), join(target, file));
+  }
+  console.log(`Copied tasks-vision ${version} WASM runtime`);
+}
+
+async function downloadModel(modelPath) {
+  const target = join(outputDir, 'models', modelPath);
+  if (await exists(target)) return;
+
+  const url = `${MODEL_ROOT}/${modelPath}`;
+  let response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`Failed to download ${url}: ${error.message}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Downloaded ${modelPath}`);
+}
+
+// Every listed model is offered in the settings, so each one has to be there
+async function downloadModels() {
+  for (const modelPath of Object.values(MODELS)) {
+    await downloadModel(modelPath);
+  }
+}
+
+try {
+  await copyWasm();
+  await downloadModels();
+} catch (error) {
+  console.error(error.message ?? error);
+  process.exit(1);
+}
@@ -0,0 +1,189 @@
+/**
+ * Camera anchor
+ * The point the finger camera keeps at the center of the view: a landmark of
+ * either hand, a palm centroid, the midpoint between both hands, or the
+ * midpoint of two landmarks
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS, HandLandmarkName, Point2D } from './hand-landmarks';
+import { TrackedHand } from './hand-identity';
+import { isLandmarkName } from './pose-definition';
+import { palmCentroid } from './two-hand-analysis';
+
+export type AnchorHand = 'Right' | 'Left' | 'any';
+
+export type AnchorSpec =
+  | { type: 'landmark'; hand: AnchorHand; landmark: HandLandmarkName }
+  | { type: 'palm'; hand: AnchorHand }
+  | { type: 'handsMidpoint' }
+  | { type: 'landmarkMidpoint'; hand: AnchorHand; from: HandLandmarkName; to: HandLandmarkName };
+
+export type AnchorType = AnchorSpec['type'];
+
+export const DEFAULT_ANCHOR: AnchorSpec = { type: 'landmark', hand: 'Right', landmark: 'INDEX_FINGER_TIP' };
+
+export const LANDMARK_LABELS: Record<HandLandmarkName, string> = {
+  WRIST: '手首',
+  THUMB_CMC: '親指CM関節',
+  THUMB_MCP: '親指MP関節',
+  THUMB_IP: '親指IP関節',
+  THUMB_TIP: '親指の先端',
+  INDEX_FINGER_MCP: '人差し指MP関節',
+  INDEX_FINGER_PIP: '人差し指PIP関節',
+  INDEX_FINGER_DIP: '人差し指DIP関節',
+  INDEX_FINGER_TIP: '人差し指の先端',
+  MIDDLE_FINGER_MCP: '中指MP関節',
+  MIDDLE_FINGER_PIP: '中指PIP関節',
+  MIDDLE_FINGER_DIP: '中指DIP関節',
+  MIDDLE_FINGER_TIP: '中指の先端',
+  RING_FINGER_MCP: '薬指MP関節',
+  RING_FINGER_PIP: '薬指PIP関節',
+  RING_FINGER_DIP: '薬指DIP関節',
+  RING_FINGER_TIP: '薬指の先端',
+  PINKY_MCP: '小指MP関節',
+  PINKY_PIP: '小指PIP関節',
+  PINKY_DIP: '小指DIP関節',
+  PINKY_TIP: '小指の先端',
+};
+
+export const HAND_LABELS: Record<AnchorHand, string> = {
+  Right: '右手',
+  Left: '左手',
+  any: 'どちらかの手',
+};
+
+const STORAGE_KEY = 'finger-camera:anchor';
+
+/**
+ * Pick the landmarks of the requested hand
+ * 'any' prefers the longest-tracked hand so the anchor doesn't hop between hands
+ */
+function findHand(
+  allHands: HandLandmarkerResult,
+  trackedHands: TrackedHand[],
+  hand: AnchorHand
+): NormalizedLandmark[] | null {
+  const candidates = allHands.landmarks
+    .map((landmarks, i) => ({
+      landmarks,
+      label: allHands.handednesses[i]?.[0]?.categoryName,
+      age: trackedHands[i]?.age ?? 0,
+    }))
+    .filter((candidate) => candidate.landmarks.length >= 21 && (hand === 'any' || candidate.label === hand))
+    .sort((a, b) => b.age - a.age);
+
+  return candidates[0]?.landmarks ?? null;
+}
+
+function midpoint(a: Point2D, b: Point2D): Point2D {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Resolve the anchor to a normalized (unmirrored) point, or null when its hands aren't visible
+ */
+export function resolveAnchor(
+  spec: AnchorSpec,
+  allHands: HandLandmarkerResult | null,
+  trackedHands: TrackedHand[] = []
+): Point2D | null {
+  if (!allHands || !allHands.landmarks || allHands.landmarks.length === 0) return null;
+
+  switch (spec.type) {
+    case 'landmark': {
+      const landmarks = findHand(allHands, trackedHands, spec.hand);
+      if (!landmarks) return null;
+      const point = landmarks[HAND_LANDMARKS[spec.landmark]];
+      return { x: point.x, y: point.y };
+    }
+    case 'palm': {
+      const landmarks = findHand(allHands, trackedHands, spec.hand);
+      if (!landmarks) return null;
+      const centroid = palmCentroid(landmarks);
+      return { x: centroid.x, y: centroid.y };
+    }
+    case 'handsMidpoint': {
+      const right = findHand(allHands, trackedHands, 'Right');
+      const left = findHand(allHands, trackedHands, 'Left');
+      if (!right || !left) return null;
+      return midpoint(palmCentroid(right), palmCentroid(left));
+    }
+    case 'landmarkMidpoint': {
+      const landmarks = findHand(allHands, trackedHands, spec.hand);
+      if (!landmarks) return null;
+      return midpoint(landmarks[HAND_LANDMARKS[spec.from]], landmarks[HAND_LANDMARKS[spec.to]]);
+    }
+  }
+}
+
+/**
+ * Landmarks of the hand the anchor follows (the right hand for the midpoint of both hands)
+ */
+export function findAnchorHand(
+  spec: AnchorSpec,
+  allHands: HandLandmarkerResult | null,
+  trackedHands: TrackedHand[] = []
+): NormalizedLandmark[] | null {
+  if (!allHands || !allHands.landmarks || allHands.landmarks.length === 0) return null;
+  return findHand(allHands, trackedHands, spec.type === 'handsMidpoint' ? 'Right' : spec.hand);
+}
+
+/**
+ * Human-readable anchor name for status messages
+ */
+export function describeAnchor(spec: AnchorSpec): string {
+  switch (spec.type) {
+    case 'landmark':
+      return `${HAND_LABELS[spec.hand]}の${LANDMARK_LABELS[spec.landmark]}`;
+    case 'palm':
+      return `${HAND_LABELS[spec.hand]}の手のひら`;
+    case 'handsMidpoint':
+      return '両手の中間';
+    case 'landmarkMidpoint':
+      return `${HAND_LABELS[spec.hand]}の${LANDMARK_LABELS[spec.from]}と${LANDMARK_LABELS[spec.to]}の中間`;
+  }
+}
+
+function isAnchorHand(value: unknown): value is AnchorHand {
+  return value === 'Right' || value === 'Left' || value === 'any';
+}
+
+function parseAnchor(value: unknown): AnchorSpec | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const spec = value as Record<string, unknown>;
+
+  switch (spec.type) {
+    case 'landmark':
+      return isAnchorHand(spec.hand) && isLandmarkName(spec.landmark)
+        ? { type: 'landmark', hand: spec.hand, landmark: spec.landmark }
+        : null;
+    case 'palm':
+      return isAnchorHand(spec.hand) ? { type: 'palm', hand: spec.hand } : null;
+    case 'handsMidpoint':
+      return { type: 'handsMidpoint' };
+    case 'landmarkMidpoint':
+      return isAnchorHand(spec.hand) && isLandmarkName(spec.from) && isLandmarkName(spec.to)
+        ? { type: 'landmarkMidpoint', hand: spec.hand, from: spec.from, to: spec.to }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function loadAnchor(): AnchorSpec {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return (stored && parseAnchor(JSON.parse(stored))) || DEFAULT_ANCHOR;
+  } catch {
+    return DEFAULT_ANCHOR;
+  }
+}
+
+export function saveAnchor(spec: AnchorSpec): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(spec));
+  } catch (error) {
+    console.warn('Failed to save anchor setting:', error);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Camera manager
+ * Enumerates video inputs, opens the chosen device at a resolution preset,
+ * stops the previous stream when switching, and follows devices being
+ * plugged in or removed. The choice is persisted in localStorage.
+ */
+
+import { InputFrame, InputSource, hasVideoFrame, nextFrameTimestamp } from './input-source';
+
+export type ResolutionPreset = '480p' | '720p' | '1080p';
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { width: number; height: number; label: string }> = {
+  '480p': { width: 640, height: 480, label: '640×480' },
+  '720p': { width: 1280, height: 720, label: '1280×720' },
+  '1080p': { width: 1920, height: 1080, label: '1920×1080' },
+};
+
+export interface CameraSelection {
+  // null picks the browser's default front camera
+  deviceId: string | null;
+  preset: ResolutionPreset;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export const DEFAULT_CAMERA_SELECTION: CameraSelection = { deviceId: null, preset: '720p' };
+
+const STORAGE_KEY = 'finger-camera:camera';
+
+// Labels of rear-facing cameras on browsers that don't report facingMode
+const REAR_CAMERA_LABEL = /back|rear|environment|背面/i;
+
+export class CameraManager implements InputSource {
+  readonly kind = 'camera';
+  private video: HTMLVideoElement;
+  private stream: MediaStream | null = null;
+  private selection: CameraSelection;
+  private mirrored = true;
+  private devices: CameraDevice[] = [];
+  private onDevicesChange: ((devices: CameraDevice[]) => void) | null = null;
+  private frame: InputFrame | null = null;
+
+  constructor(video: HTMLVideoElement, selection: CameraSelection = DEFAULT_CAMERA_SELECTION) {
+    this.video = video;
+    this.selection = { ...selection };
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+  }
+
+  /**
+   * Open the selected camera, replacing any stream that is already running
+   * Falls back to the default camera if the remembered device is gone, and
+   * reopens the previous camera if the new one can't be opened at all
+   */
+  async start(selection: CameraSelection = this.selection): Promise<void> {
+    // Only a camera that was still delivering frames is worth reopening
+    const previous = this.stream?.getVideoTracks()[0]?.readyState === 'live' ? this.selection : null;
+
+    // Release the current camera first; phones often can't open two at once
+    this.stop();
+
+    let stream: MediaStream;
+    try {
+      ({ stream, selection } = await openStream(selection));
+    } catch (error) {
+      if (previous) {
+        try {
+          await this.start(previous);
+        } catch (restoreError) {
+          console.warn('Failed to reopen the previous camera:', restoreError);
+        }
+      }
+      throw error;
+    }
+
+    this.stream = stream;
+    this.selection = { ...selection };
+
+    const track = stream.getVideoTracks()[0];
+    const settings = track?.getSettings() ?? {};
+    // Only a front camera behaves like a mirror; unknown facing (most webcams) counts as front
+    this.mirrored = settings.facingMode
+      ? settings.facingMode === 'user'
+      : !REAR_CAMERA_LABEL.test(track?.label ?? '');
+
+    this.video.srcObject = stream;
+    await new Promise<void>((resolve) => {
+      this.video.onloadedmetadata = () => {
+        this.video.play();
+        resolve();
+      };
+    });
+
+    // Labels are only exposed once permission has been granted
+    await this.refreshDevices();
+  }
+
+  stop(): void {
+    if (!this.stream) return;
+    for (const track of this.stream.getTracks()) {
+      track.stop();
+    }
+    this.stream = null;
+    this.frame = null;
+    this.video.srcObject = null;
+  }
+
+  getSelection(): CameraSelection {
+    return { ...this.selection };
+  }
+
+  /**
+   * The device actually in use, which may differ from the selection when it fell back
+   */
+  getActiveDeviceId(): string | null {
+    return this.stream?.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  /**
+   * Whether the image should be flipped horizontally for display (front cameras)
+   */
+  isMirrored(): boolean {
+    return this.mirrored;
+  }
+
+  /**
+   * Live frames are stamped with the time they are first seen
+   */
+  getFrame(now: number): InputFrame | null {
+    if (!this.stream || !hasVideoFrame(this.video)) return null;
+
+    const frameId = this.video.currentTime;
+    if (this.frame?.frameId !== frameId) {
+      this.frame = {
+        image: this.video,
+        width: this.video.videoWidth,
+        height: this.video.videoHeight,
+        frameId,
+        timestamp: nextFrameTimestamp(now),
+      };
+    }
+    return this.frame;
+  }
+
+  getDevices(): CameraDevice[] {
+    return [...this.devices];
+  }
+
+  /**
+   * Called with the new device list whenever a camera is connected or removed
+   */
+  setDeviceChangeHandler(handler: ((devices: CameraDevice[]) => void) | null): void {
+    this.onDevicesChange = handler;
+  }
+
+  destroy(): void {
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    this.stop();
+  }
+
+  private async refreshDevices(): Promise<void> {
+    const inputs = (await navigator.mediaDevices.enumerateDevices()).filter((device) => device.kind === 'videoinput');
+    this.devices = inputs.map((device, i) => ({
+      deviceId: device.deviceId,
+      label: device.label || `カメラ ${i + 1}`,
+    }));
+  }
+
+  private handleDeviceChange = async (): Promise<void> => {
+    await this.refreshDevices();
+
+    // The camera in use was unplugged: move to whatever is left
+    const activeTrack = this.stream?.getVideoTracks()[0];
+    if (this.stream && (!activeTrack || activeTrack.readyState === 'ended')) {
+      try {
+        await this.start({ ...this.selection, deviceId: null });
+      } catch (error) {
+        console.warn('No camera left to switch to:', error);
+        this.stop();
+      }
+    }
+
+    this.onDevicesChange?.(this.getDevices());
+  };
+}
+
+/**
+ * getUserMedia for a selection, retrying with the default camera if the chosen device is gone
+ */
+async function openStream(selection: CameraSelection): Promise<{ stream: MediaStream; selection: CameraSelection }> {
+  const { width, height } = RESOLUTION_PRESETS[selection.preset];
+  const video: MediaTrackConstraints = { width: { ideal: width }, height: { ideal: height } };
+  if (selection.deviceId) {
+    video.deviceId = { exact: selection.deviceId };
+  } else {
+    video.facingMode = 'user';
+  }
+
+  try {
+    return { stream: await navigator.mediaDevices.getUserMedia({ video, audio: false }), selection };
+  } catch (error) {
+    if (!selection.deviceId || (error as DOMException).name !== 'OverconstrainedError') throw error;
+    console.warn('Selected camera unavailable, using the default camera:', error);
+    return openStream({ ...selection, deviceId: null });
+  }
+}
+
+function isPreset(value: unknown): value is ResolutionPreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESOLUTION_PRESETS, value);
+}
+
+export function loadCameraSelection(): CameraSelection {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Record<string, unknown> | null;
+    if (!stored) return DEFAULT_CAMERA_SELECTION;
+    return {
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+      preset: isPreset(stored.preset) ? stored.preset : DEFAULT_CAMERA_SELECTION.preset,
+    };
+  } catch {
+    return DEFAULT_CAMERA_SELECTION;
+  }
+}
+
+export function saveCameraSelection(selection: CameraSelection): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Failed to save camera setting:', error);
+  }
+}
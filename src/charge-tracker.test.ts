@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { ChargeEvent, ChargeOptions, ChargeTracker } from './charge-tracker';
+import { GestureDetection, noDetection, recognizeGestures } from './gesture-recognizer';
+import { MURYO_KUSHO, createBuiltinRecognizers } from './poses';
+import { HAND_FIXTURES } from './fixtures/hands';
+
+const FRAME_MS = 50;
+
+function seen(centerPoint = { x: 0.5, y: 0.5 }): GestureDetection {
+  return { name: MURYO_KUSHO, detected: true, confidence: 1, centerPoint, handIndex: 0 };
+}
+
+/**
+ * Feed detections one frame apart, starting at `start`; returns the events of every frame
+ */
+function feed(tracker: ChargeTracker, detections: GestureDetection[], start = 0): ChargeEvent[] {
+  return detections.map((detection, i) => tracker.update(detection, start + i * FRAME_MS));
+}
+
+function frames(detection: GestureDetection, count: number): GestureDetection[] {
+  return Array.from({ length: count }, () => detection);
+}
+
+const missed = noDetection(MURYO_KUSHO);
+
+describe('ChargeTracker', () => {
+  it('keeps holding through a single dropped frame', () => {
+    const tracker = new ChargeTracker({ holdDuration: 1000 });
+    const events = feed(tracker, [...frames(seen(), 10), missed, ...frames(seen(), 5)]);
+
+    expect(events.filter(Boolean)).toEqual(['started']);
+    expect(tracker.isHolding()).toBe(true);
+    // The dropped frame still counts toward the charge
+    expect(tracker.getProgress()).toBeCloseTo(750 / 1000);
+  });
+
+  it.each<[string, Partial<ChargeOptions>, boolean]>([
+    ['both limits exceeded', { graceFrames: 3, graceMs: 150 }, false],
+    ['only the frame limit exceeded', { graceFrames: 3, graceMs: 1000 }, true],
+    ['only the time limit exceeded', { graceFrames: 10, graceMs: 150 }, true],
+  ])('releases only once both grace limits are exceeded (%s)', (_, options, holding) => {
+    const tracker = new ChargeTracker(options);
+    feed(tracker, [seen(), ...frames(missed, 5)]);
+    expect(tracker.isHolding()).toBe(holding);
+  });
+
+  it('reports the release on the frame that exceeds the grace', () => {
+    const tracker = new ChargeTracker({ graceFrames: 3, graceMs: 150 });
+    const events = feed(tracker, [seen(), ...frames(missed, 5)]);
+    // 4 missed frames and 200ms since the seal was last seen
+    expect(events).toEqual(['started', null, null, null, 'released', null]);
+  });
+
+  it('drains gradually at decayRate after release', () => {
+    const tracker = new ChargeTracker({ holdDuration: 1000, graceFrames: 0, graceMs: 0, decayRate: 0.5 });
+    feed(tracker, frames(seen(), 11));
+    expect(tracker.getProgress()).toBeCloseTo(0.5);
+
+    // Released on the first missed frame, then 0.5 per second is lost
+    feed(tracker, frames(missed, 8), 550);
+    expect(tracker.isHolding()).toBe(false);
+    expect(tracker.getProgress()).toBeCloseTo(0.5 - 0.4 * 0.5);
+    expect(tracker.getCenterPoint()).not.toBeNull();
+
+    // Picking the seal up again continues from what is left
+    feed(tracker, frames(seen(), 2), 950);
+    expect(tracker.getProgress()).toBeCloseTo(0.3 + 0.1);
+  });
+
+  it('drops the charge at once with an infinite decayRate', () => {
+    const tracker = new ChargeTracker({ holdDuration: 1000, graceFrames: 0, graceMs: 0, decayRate: Infinity });
+    feed(tracker, [...frames(seen(), 11), missed]);
+    expect(tracker.getProgress()).toBe(0);
+    expect(tracker.getCenterPoint()).toBeNull();
+  });
+
+  it('is spent by markTriggered until the seal is released', () => {
+    const tracker = new ChargeTracker({ holdDuration: 500, graceFrames: 0, graceMs: 0 });
+    feed(tracker, frames(seen(), 12));
+    expect(tracker.isCharged()).toBe(true);
+
+    tracker.markTriggered();
+    expect(tracker.isCharged()).toBe(false);
+    expect(tracker.isTriggered()).toBe(true);
+
+    // Holding on doesn't fire again
+    feed(tracker, frames(seen(), 5), 600);
+    expect(tracker.isCharged()).toBe(false);
+
+    // A release clears the spent charge instead of letting it drain
+    feed(tracker, [missed], 850);
+    expect(tracker.getProgress()).toBe(0);
+    expect(tracker.isTriggered()).toBe(false);
+  });
+
+  it('charges through a seal that jitters between the enter and exit thresholds', () => {
+    const fixture = (name: string) => HAND_FIXTURES.find((candidate) => candidate.name === name)!.result;
+    const seal = fixture('muryo-kusho');
+    // Tips just too far apart to enter the seal, but close enough to stay in it
+    const jitter = fixture('near-miss-fingers-apart');
+
+    const charge = (stream: typeof seal[]) => {
+      const recognizers = createBuiltinRecognizers();
+      const tracker = new ChargeTracker({ holdDuration: 1000, graceFrames: 0, graceMs: 0 });
+      feed(tracker, stream.map((result) => recognizeGestures(recognizers, result)[MURYO_KUSHO]));
+      return tracker;
+    };
+
+    const held = charge([seal, ...Array.from({ length: 20 }, (_, i) => (i % 2 ? seal : jitter))]);
+    expect(held.isHolding()).toBe(true);
+    expect(held.isCharged()).toBe(true);
+
+    const neverEntered = charge(Array.from({ length: 21 }, () => jitter));
+    expect(neverEntered.isHolding()).toBe(false);
+    expect(neverEntered.getProgress()).toBe(0);
+  });
+});
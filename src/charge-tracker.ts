@@ -0,0 +1,141 @@
+/**
+ * Charge tracker for held poses
+ * Accumulates charge while a gesture is held, tolerates short detection
+ * dropouts, and drains gradually once the gesture is released
+ */
+
+import { Point2D } from './hand-landmarks';
+import { GestureDetection } from './gesture-recognizer';
+
+export interface ChargeOptions {
+  // Hold time needed to reach full charge (ms)
+  holdDuration: number;
+  // The hold only counts as released once BOTH grace limits are exceeded;
+  // set one to 0 to rely on the other alone
+  graceFrames: number;
+  graceMs: number;
+  // Charge lost per second after release (1 = a full charge drains in 1s, Infinity = reset at once)
+  decayRate: number;
+}
+
+export const DEFAULT_CHARGE_OPTIONS: ChargeOptions = {
+  holdDuration: 3000,
+  graceFrames: 3,
+  graceMs: 150,
+  decayRate: 0.5,
+};
+
+export type ChargeEvent = 'started' | 'released' | null;
+
+export class ChargeTracker {
+  private options: ChargeOptions;
+
+  private charge = 0;
+  private holding = false;
+  private triggered = false;
+  private missedFrames = 0;
+  private lastSeenTime = 0;
+  private lastTimestamp: number | null = null;
+  private centerPoint: Point2D | null = null;
+
+  constructor(options: Partial<ChargeOptions> = {}) {
+    this.options = { ...DEFAULT_CHARGE_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<ChargeOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Feed one frame of detection
+   * Returns 'started' or 'released' when the hold state changes on this frame
+   */
+  update(detection: GestureDetection, timestamp: number): ChargeEvent {
+    const dt = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp);
+    this.lastTimestamp = timestamp;
+
+    let event: ChargeEvent = null;
+
+    if (detection.detected) {
+      if (!this.holding) {
+        this.holding = true;
+        event = 'started';
+      }
+      this.missedFrames = 0;
+      this.lastSeenTime = timestamp;
+      if (detection.centerPoint) {
+        this.centerPoint = detection.centerPoint;
+      }
+    } else if (this.holding) {
+      this.missedFrames++;
+      const graceExpired = this.missedFrames > this.options.graceFrames &&
+        timestamp - this.lastSeenTime > this.options.graceMs;
+
+      if (graceExpired) {
+        this.holding = false;
+        event = 'released';
+        // A spent charge doesn't linger after release
+        if (this.triggered) {
+          this.charge = 0;
+          this.triggered = false;
+        }
+      }
+    }
+
+    if (this.holding) {
+      this.charge = Math.min(1, this.charge + dt / this.options.holdDuration);
+    } else {
+      this.charge = this.options.decayRate === Infinity
+        ? 0
+        : Math.max(0, this.charge - (dt / 1000) * this.options.decayRate);
+      if (this.charge === 0) {
+        this.centerPoint = null;
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Charge level (0-1)
+   */
+  getProgress(): number {
+    return this.charge;
+  }
+
+  // Time left until full charge at the current hold (ms)
+  getRemaining(): number {
+    return (1 - this.charge) * this.options.holdDuration;
+  }
+
+  isHolding(): boolean {
+    return this.holding;
+  }
+
+  // Fully charged and not yet spent on a trigger
+  isCharged(): boolean {
+    return this.holding && this.charge >= 1 && !this.triggered;
+  }
+
+  isTriggered(): boolean {
+    return this.triggered;
+  }
+
+  markTriggered(): void {
+    this.triggered = true;
+  }
+
+  // Last known center of the held gesture (survives grace frames)
+  getCenterPoint(): Point2D | null {
+    return this.centerPoint;
+  }
+
+  reset(): void {
+    this.charge = 0;
+    this.holding = false;
+    this.triggered = false;
+    this.missedFrames = 0;
+    this.lastTimestamp = null;
+    this.centerPoint = null;
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { DomainExpansionEffect, EffectCanvas, renderEffectFrame } from './domain-expansion-effect';
+import { EffectTimeline } from './effect-timeline';
+import { BUILTIN_TIMELINES, DOMAIN_EXPANSION } from './timelines';
+import { BUILTIN_THEMES, DEFAULT_THEME } from './themes';
+
+const WIDTH = 320;
+const HEIGHT = 180;
+
+// The title text is left out: its glyphs depend on the fonts installed on the machine
+const builtin = BUILTIN_TIMELINES[DOMAIN_EXPANSION];
+const timeline: EffectTimeline = { ...builtin, tracks: builtin.tracks.filter((track) => track.kind !== 'text') };
+const inkOnly: EffectTimeline = { ...builtin, tracks: builtin.tracks.filter((track) => track.kind === 'inkWave') };
+
+function newCanvas() {
+  return createCanvas(WIDTH, HEIGHT);
+}
+
+function pixels(canvas: ReturnType<typeof newCanvas>): Uint8ClampedArray {
+  return canvas.getContext('2d').getImageData(0, 0, WIDTH, HEIGHT).data;
+}
+
+// Snapshots use the default theme, which must keep the look the effect had before themes existed
+function renderFrame(time: number, seed = 1): Uint8ClampedArray {
+  const canvas = newCanvas();
+  renderEffectFrame(canvas as unknown as EffectCanvas, time, { seed, timeline, theme: DEFAULT_THEME });
+  return pixels(canvas);
+}
+
+// One character per 10×10 cell for its average opacity: readable in review,
+// and blind to antialiasing differences between canvas builds
+const SHADES = ' .:-=+*#%@';
+const CELL = 10;
+
+function coverageMap(data: Uint8ClampedArray): string {
+  const rows: string[] = [];
+  for (let cy = 0; cy < HEIGHT; cy += CELL) {
+    let row = '';
+    for (let cx = 0; cx < WIDTH; cx += CELL) {
+      let alpha = 0;
+      for (let y = cy; y < cy + CELL; y++) {
+        for (let x = cx; x < cx + CELL; x++) {
+          alpha += data[(y * WIDTH + x) * 4 + 3];
+        }
+      }
+      const coverage = alpha / (CELL * CELL * 255);
+      row += SHADES[Math.min(SHADES.length - 1, Math.floor(coverage * SHADES.length))];
+    }
+    rows.push(row);
+  }
+  return rows.join('\n');
+}
+
+// Most frequent colors of the mostly opaque pixels, as [r, g, b]
+function dominantColors(data: Uint8ClampedArray, count: number): number[][] {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const key = `${data[i]},${data[i + 1]},${data[i + 2]}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([key]) => key.split(',').map(Number));
+}
+
+function hexToRgb(hex: string): number[] {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+}
+
+describe('DomainExpansionEffect', () => {
+  it('renders the same pixels for the same seed and time', () => {
+    expect(renderFrame(800)).toEqual(renderFrame(800));
+    expect(renderFrame(800, 2)).not.toEqual(renderFrame(800));
+  });
+
+  it('keeps splatter shapes still while the clock is stopped', () => {
+    const canvas = newCanvas();
+    const effect = new DomainExpansionEffect(canvas as unknown as EffectCanvas, timeline, { seed: 1 });
+    effect.trigger({ x: 0.5, y: 0.5 });
+    effect.renderAt(1500);
+    const first = pixels(canvas);
+
+    canvas.getContext('2d').clearRect(0, 0, WIDTH, HEIGHT);
+    effect.render();
+    expect(pixels(canvas)).toEqual(first);
+  });
+
+  it('ends in the same state whatever the frame rate, with a fixed step', () => {
+    const run = (frameMs: number) => {
+      const canvas = newCanvas();
+      const effect = new DomainExpansionEffect(canvas as unknown as EffectCanvas, timeline, { seed: 1, fixedStep: 5 });
+      effect.trigger({ x: 0.5, y: 0.5 });
+      for (let time = 0; time < 1000; time += frameMs) {
+        effect.update(frameMs);
+      }
+      effect.render();
+      return pixels(canvas);
+    };
+    expect(run(10)).toEqual(run(25));
+  });
+
+  it.each(Object.keys(BUILTIN_THEMES))('draws the ink in the palette of the %s theme', (name) => {
+    const theme = BUILTIN_THEMES[name];
+    const canvas = newCanvas();
+    renderEffectFrame(canvas as unknown as EffectCanvas, 300, { timeline: inkOnly, theme });
+
+    // Overlapping particles blend, but the most common colors are single particles
+    const palette = theme.palette.map(hexToRgb);
+    for (const color of dominantColors(pixels(canvas), 5)) {
+      const distance = Math.min(...palette.map((rgb) => Math.max(...rgb.map((v, i) => Math.abs(v - color[i])))));
+      expect(distance).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it.each([100, 300, 1200, 2500])('matches the snapshot at %i ms', (time) => {
+    expect(coverageMap(renderFrame(time))).toMatchSnapshot();
+  });
+});
@@ -1,296 +1,322 @@
 /**
- * Domain Expansion Effect - 領域展開「無量空処」
- * Dramatic ink splatter and visual effects inspired by Jujutsu Kaisen
+ * Domain Expansion Effect - 領域展開
+ * Dramatic ink splatter and visual effects inspired by Jujutsu Kaisen,
+ * drawn in the colors and title of a DomainTheme (無量空処 by default)
  */
 
 import { Point2D } from './hand-tracker';
+import { BurstLinesTrack, EffectTimeline, InkWaveTrack, TextTrack, ease, sampleKind, trackProgress } from './effect-timeline';
+import { BUILTIN_TIMELINES, DOMAIN_EXPANSION } from './timelines';
+import { Random, randomIn, seededRandom } from './random';
+import { DomainTheme, InkParticleType, pickParticleType, vignetteColor } from './domain-theme';
+import { DEFAULT_THEME } from './themes';
 
 // Ink particle class
 interface InkParticle {
   x: number;
   y: number;
+  // px/s
   vx: number;
   vy: number;
   size: number;
   rotation: number;
+  // rad/s
   rotationSpeed: number;
   opacity: number;
   color: string;
+  // ms
   life: number;
   maxLife: number;
-  type: 'splatter' | 'drop' | 'streak';
+  type: InkParticleType;
+  // Set for splatters only
+  splatter: SplatterShape | null;
 }
 
-// Burst line for dramatic effect
+// Splatter outline and droplets, fixed at spawn so the shape doesn't shimmer between frames
+interface SplatterShape {
+  // Radius of each outline point, relative to the particle size
+  outline: number[];
+  droplets: { angle: number; distance: number; size: number }[];
+}
+
+// Burst line for dramatic effect; length and opacity follow its track
 interface BurstLine {
+  track: BurstLinesTrack;
   angle: number;
-  length: number;
   targetLength: number;
   width: number;
-  opacity: number;
-  speed: number;
+  // Extra delay after the track start (ms)
   delay: number;
-  startTime: number;
-  layer: number; // 0 = back, 1 = front
 }
 
-// Floating character element (for per-character animation)
+// Floating character element (for per-character animation along its text track)
 interface FloatingCharacter {
+  track: TextTrack;
   char: string;
-  x: number;
-  y: number;
+  index: number;
+  startX: number;
+  startY: number;
   targetX: number;
   targetY: number;
-  opacity: number;
-  scale: number;
-  targetScale: number;
-  rotation: number;
-  targetRotation: number;
-  delay: number;
-  startTime: number;
-  groupIndex: number; // 0 = 領域展開, 1 = 無量空処
+  startScale: number;
+  startRotation: number;
+}
+
+// Anything a 2D context can draw on: the page's canvas, or an offscreen one for exports and tests
+export type EffectCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface DomainExpansionOptions {
+  // Seed for every random choice, reapplied on each trigger (deterministic mode); null uses Math.random
+  seed: number | null;
+  // Generator to use instead of a seed, shared by every random choice; seeking can't rewind it
+  random: Random | null;
+  // Simulate in steps of exactly this many ms, carrying the remainder over; null steps by each update's dt
+  fixedStep: number | null;
+  // Longest time one update may advance (ms), so a stalled tab doesn't skip the effect
+  maxDelta: number;
 }
 
+export const DEFAULT_DOMAIN_EXPANSION_OPTIONS: DomainExpansionOptions = {
+  seed: null,
+  random: null,
+  fixedStep: null,
+  maxDelta: 100,
+};
+
+// Ink physics, tuned at 60 fps and expressed per second so every frame rate matches:
+// velocity loses 3% and gains 0.15 px/frame of fall per frame, opacity loses 4% per frame once fading
+const INK_DRAG = -60 * Math.log(0.97);
+const INK_GRAVITY = 0.15 * 60 * 60;
+const INK_FADE = -60 * Math.log(0.96);
+// Fraction of its life after which a particle starts to fade
+const INK_FADE_START = 0.6;
+
+// Step used to re-simulate when seeking without a fixed step (ms)
+const SEEK_STEP = 1000 / 60;
+
 export class DomainExpansionEffect {
   private particles: InkParticle[] = [];
   private burstLines: BurstLine[] = [];
   private floatingChars: FloatingCharacter[] = [];
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: EffectCanvas;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  private timeline: EffectTimeline;
+  private theme: DomainTheme = DEFAULT_THEME;
+  private options: DomainExpansionOptions;
+  // Layout and ink; shake draws from its own stream so the number of steps doesn't change the ink
+  private random: Random = Math.random;
+  private shakeRandom: Random = Math.random;
 
   // Effect state
   private isActive = false;
-  private effectStartTime = 0;
-  private flashOpacity = 0;
-  private shakeIntensity = 0;
+  private paused = false;
+  // Effect clock: ms since the trigger, the only time source for every track
+  private time = 0;
+  // Time not yet simulated when running with a fixed step (ms)
+  private accumulator = 0;
+  private origin = { x: 0, y: 0 };
+  // Particles emitted so far per ink wave track
+  private emitted = new Map<InkWaveTrack, number>();
   private shakeOffset = { x: 0, y: 0 };
 
-  // Colors for ink effect (dark purple/black theme)
-  private inkColors = [
-    '#0a0a0a',      // Near black
-    '#1a0a2e',      // Dark purple
-    '#2d1b4e',      // Purple
-    '#4a1a6b',      // Violet
-    '#16213e',      // Dark blue
-    '#0f3460',      // Navy
-  ];
-
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(
+    canvas: EffectCanvas,
+    timeline: EffectTimeline = BUILTIN_TIMELINES[DOMAIN_EXPANSION],
+    options: Partial<DomainExpansionOptions> = {}
+  ) {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d')!;
+    this.timeline = timeline;
+    this.options = { ...DEFAULT_DOMAIN_EXPANSION_OPTIONS, ...options };
+    this.reseed();
+  }
+
+  private createRandom(stream: number): Random {
+    if (this.options.random) return this.options.random;
+    return this.options.seed === null ? Math.random : seededRandom(this.options.seed + stream);
+  }
+
+  private reseed(): void {
+    this.random = this.createRandom(0);
+    this.shakeRandom = this.createRandom(1);
   }
 
   /**
-   * Trigger the domain expansion effect
+   * Trigger the domain expansion effect, in `theme` or the last one used
+   * `mirrored` tells whether the camera image is shown flipped horizontally
    */
-  trigger(centerPoint: Point2D): void {
+  trigger(centerPoint: Point2D, mirrored = true, theme: DomainTheme = this.theme): void {
     if (this.isActive) return;
 
     this.isActive = true;
-    this.effectStartTime = performance.now();
+    this.theme = theme;
+    this.paused = false;
 
     // Convert normalized coordinates to canvas coordinates
-    const centerX = (1 - centerPoint.x) * this.canvas.width; // Mirror X
-    const centerY = centerPoint.y * this.canvas.height;
+    this.origin = {
+      x: (mirrored ? 1 - centerPoint.x : centerPoint.x) * this.canvas.width,
+      y: centerPoint.y * this.canvas.height,
+    };
 
-    console.log('[DomainExpansion] TRIGGERED at', centerX, centerY);
+    console.log('[DomainExpansion] TRIGGERED at', this.origin.x, this.origin.y);
 
-    // Initial flash
-    this.flashOpacity = 1;
-
-    // Screen shake
-    this.shakeIntensity = 20;
-
-    // Create burst lines
-    this.createBurstLines(centerX, centerY);
+    this.reseed();
+    this.start();
+  }
 
-    // Create ink particles in waves
-    this.createInkWave(centerX, centerY, 0);
-    setTimeout(() => this.createInkWave(centerX, centerY, 1), 100);
-    setTimeout(() => this.createInkWave(centerX, centerY, 2), 200);
-    setTimeout(() => this.createInkWave(centerX, centerY, 3), 350);
+  /**
+   * Back to time 0: lay out burst lines and title characters (the timeline
+   * animates them) and emit the ink due at once
+   */
+  private start(): void {
+    this.time = 0;
+    this.accumulator = 0;
+    this.particles = [];
+    this.emitted.clear();
+    this.burstLines = [];
+    this.floatingChars = [];
+    for (const track of this.timeline.tracks) {
+      if (track.kind === 'burstLines') {
+        this.createBurstLines(track);
+      } else if (track.kind === 'text') {
+        this.createFloatingChars(track);
+      }
+    }
 
-    // Create floating text with per-character animation (appear early, before effect peaks)
-    this.createFloatingChars('領域展開', this.canvas.width / 2, this.canvas.height / 2 - 80, 0, 50);
-    this.createFloatingChars('無量空処', this.canvas.width / 2, this.canvas.height / 2 + 80, 1, 250);
+    this.emitInk();
   }
 
-  private createBurstLines(_centerX: number, _centerY: number): void {
-    const now = performance.now();
-
-    // Layer 0: Background burst lines (thick, slow)
-    const numBackLines = 36;
-    for (let i = 0; i < numBackLines; i++) {
-      const angle = (i / numBackLines) * Math.PI * 2 + Math.random() * 0.1;
+  private createBurstLines(track: BurstLinesTrack): void {
+    for (let i = 0; i < track.count; i++) {
       this.burstLines.push({
-        angle,
-        length: 0,
-        targetLength: 500 + Math.random() * 400,
-        width: 8 + Math.random() * 12,
-        opacity: 0.6,
-        speed: 20 + Math.random() * 15,
-        delay: Math.random() * 100,
-        startTime: now,
-        layer: 0,
+        track,
+        angle: (i / track.count) * Math.PI * 2 + this.random() * track.jitter,
+        targetLength: randomIn(this.random, track.length),
+        width: randomIn(this.random, track.width),
+        delay: this.random() * track.stagger,
       });
     }
+  }
 
-    // Layer 1: Foreground burst lines (thin, fast, more numerous)
-    const numFrontLines = 72;
-    for (let i = 0; i < numFrontLines; i++) {
-      const angle = (i / numFrontLines) * Math.PI * 2 + Math.random() * 0.05;
-      this.burstLines.push({
-        angle,
-        length: 0,
-        targetLength: 600 + Math.random() * 500,
-        width: 2 + Math.random() * 4,
-        opacity: 1,
-        speed: 30 + Math.random() * 20,
-        delay: 50 + Math.random() * 150,
-        startTime: now,
-        layer: 1,
-      });
-    }
+  private createInkParticle(track: InkWaveTrack): InkParticle {
+    const angle = this.random() * Math.PI * 2;
+    const speed = randomIn(this.random, track.speed);
+    const type = pickParticleType(this.theme, this.random);
+
+    return {
+      x: this.origin.x + (this.random() - 0.5) * track.spread,
+      y: this.origin.y + (this.random() - 0.5) * track.spread,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      size: type === 'streak' ? 3 + this.random() * 5 : 10 + this.random() * 30,
+      rotation: this.random() * Math.PI * 2,
+      rotationSpeed: (this.random() - 0.5) * 18,
+      opacity: 0.7 + this.random() * 0.3,
+      color: this.theme.palette[Math.floor(this.random() * this.theme.palette.length)],
+      life: 0,
+      maxLife: 1333 + this.random() * 1000,
+      type,
+      splatter: type === 'splatter' ? this.createSplatterShape() : null,
+    };
+  }
 
-    // Add some extra dramatic thick lines
-    const numDramaticLines = 12;
-    for (let i = 0; i < numDramaticLines; i++) {
-      const angle = (i / numDramaticLines) * Math.PI * 2;
-      this.burstLines.push({
-        angle,
-        length: 0,
-        targetLength: 800 + Math.random() * 300,
-        width: 15 + Math.random() * 10,
-        opacity: 0.8,
-        speed: 40 + Math.random() * 20,
-        delay: 0,
-        startTime: now,
-        layer: 1,
-      });
-    }
+  private createSplatterShape(): SplatterShape {
+    const points = 7 + Math.floor(this.random() * 4);
+    const outline = Array.from({ length: points }, () => 0.5 + this.random() * 0.5);
+    const droplets = Array.from({ length: 3 }, () => ({
+      angle: this.random() * Math.PI * 2,
+      distance: 0.8 + this.random() * 0.5,
+      size: 2 + this.random() * 4,
+    }));
+    return { outline, droplets };
   }
 
-  private createInkWave(centerX: number, centerY: number, waveIndex: number): void {
-    const numParticles = 60 - waveIndex * 10;
-    const baseSpeed = 8 + waveIndex * 3;
-
-    for (let i = 0; i < numParticles; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = baseSpeed + Math.random() * 12;
-      const type = Math.random() < 0.3 ? 'streak' : (Math.random() < 0.5 ? 'drop' : 'splatter');
-
-      this.particles.push({
-        x: centerX + (Math.random() - 0.5) * 50,
-        y: centerY + (Math.random() - 0.5) * 50,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        size: type === 'streak' ? 3 + Math.random() * 5 : 10 + Math.random() * 30,
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 0.3,
-        opacity: 0.7 + Math.random() * 0.3,
-        color: this.inkColors[Math.floor(Math.random() * this.inkColors.length)],
-        life: 0,
-        maxLife: 80 + Math.random() * 60,
-        type,
-      });
+  /**
+   * Emit the particles each ink wave track owes by the current time
+   */
+  private emitInk(): void {
+    for (const track of this.timeline.tracks) {
+      if (track.kind !== 'inkWave') continue;
+      const progress = trackProgress(track, this.time);
+      if (progress === null) continue;
+
+      const due = Math.round(track.count * ease(track.easing, progress));
+      for (let i = this.emitted.get(track) ?? 0; i < due; i++) {
+        this.particles.push(this.createInkParticle(track));
+      }
+      this.emitted.set(track, due);
     }
   }
 
-  private createFloatingChars(text: string, centerX: number, centerY: number, groupIndex: number, baseDelay: number): void {
-    const now = performance.now();
-    const chars = text.split('');
+  private createFloatingChars(track: TextTrack): void {
+    const chars = Array.from(this.theme.title[track.line] ?? '');
     const charWidth = 80; // Approximate width per character
     const totalWidth = chars.length * charWidth;
-    const startX = centerX - totalWidth / 2 + charWidth / 2;
+    const startX = this.canvas.width / 2 - totalWidth / 2 + charWidth / 2;
 
     chars.forEach((char, i) => {
       const targetX = startX + i * charWidth;
-      const targetY = centerY;
+      const targetY = this.canvas.height / 2 + track.offsetY;
 
       // Each character starts from a different dramatic position
-      const angle = (Math.random() - 0.5) * Math.PI * 0.5;
-      const distance = 200 + Math.random() * 150;
-      const startOffsetX = Math.cos(angle) * distance * (Math.random() > 0.5 ? 1 : -1);
-      const startOffsetY = Math.sin(angle) * distance + (Math.random() - 0.5) * 100;
+      const angle = (this.random() - 0.5) * Math.PI * 0.5;
+      const distance = 200 + this.random() * 150;
+      const startOffsetX = Math.cos(angle) * distance * (this.random() > 0.5 ? 1 : -1);
+      const startOffsetY = Math.sin(angle) * distance + (this.random() - 0.5) * 100;
 
       this.floatingChars.push({
+        track,
         char,
-        x: targetX + startOffsetX,
-        y: targetY + startOffsetY + 100,
+        index: i,
+        startX: targetX + startOffsetX,
+        startY: targetY + startOffsetY + 100,
         targetX,
         targetY,
-        opacity: 0,
-        scale: 0.3 + Math.random() * 0.3,
-        targetScale: 1,
-        rotation: (Math.random() - 0.5) * 0.8,
-        targetRotation: 0,
-        delay: baseDelay + i * 80, // Staggered delay per character
-        startTime: now,
-        groupIndex,
+        startScale: 0.3 + this.random() * 0.3,
+        startRotation: (this.random() - 0.5) * 0.8,
       });
     });
   }
 
   /**
-   * Update effect state (call every frame)
+   * Advance the effect by `dt` ms of real time (call every frame)
+   * The result depends only on the total time, not on how it is split into frames,
+   * except for rounding when stepping without a fixed step
    */
-  update(): void {
-    if (!this.isActive && this.particles.length === 0 && this.burstLines.length === 0 && this.floatingChars.length === 0) {
+  update(dt: number): void {
+    if (!this.isActive && this.particles.length === 0) return;
+    if (this.paused) return;
+
+    const elapsed = Math.min(Math.max(0, dt), this.options.maxDelta);
+    const fixedStep = this.options.fixedStep;
+    if (fixedStep === null) {
+      this.step(elapsed);
       return;
     }
 
-    const now = performance.now();
-
-    // Update flash
-    this.flashOpacity *= 0.9;
-    if (this.flashOpacity < 0.01) this.flashOpacity = 0;
-
-    // Update shake
-    this.shakeIntensity *= 0.92;
-    if (this.shakeIntensity > 0.1) {
-      this.shakeOffset = {
-        x: (Math.random() - 0.5) * this.shakeIntensity * 2,
-        y: (Math.random() - 0.5) * this.shakeIntensity * 2,
-      };
-    } else {
-      this.shakeOffset = { x: 0, y: 0 };
-      this.shakeIntensity = 0;
+    this.accumulator += elapsed;
+    while (this.accumulator >= fixedStep) {
+      this.accumulator -= fixedStep;
+      this.step(fixedStep);
     }
+  }
 
-    // Update burst lines with delay support
-    for (let i = this.burstLines.length - 1; i >= 0; i--) {
-      const line = this.burstLines[i];
-      const lineAge = now - line.startTime;
-
-      // Wait for delay
-      if (lineAge < line.delay) continue;
+  /**
+   * Advance the effect clock by `elapsed` ms
+   */
+  private step(elapsed: number): void {
+    this.time += elapsed;
+    this.emitInk();
 
-      line.length += line.speed;
-      if (line.length >= line.targetLength) {
-        line.opacity -= 0.025;
-        if (line.opacity <= 0) {
-          this.burstLines.splice(i, 1);
-        }
-      }
-    }
+    // Shake follows its track; the direction is random every step
+    const shake = sampleKind(this.timeline, 'shake', this.time);
+    this.shakeOffset = shake > 0.1
+      ? { x: (this.shakeRandom() - 0.5) * shake * 2, y: (this.shakeRandom() - 0.5) * shake * 2 }
+      : { x: 0, y: 0 };
 
-    // Update particles
     for (let i = this.particles.length - 1; i >= 0; i--) {
       const p = this.particles[i];
-
-      // Physics
-      p.x += p.vx;
-      p.y += p.vy;
-      p.vx *= 0.97;
-      p.vy *= 0.97;
-      p.vy += 0.15; // Gravity
-      p.rotation += p.rotationSpeed;
-      p.life++;
-
-      // Fade out
-      if (p.life > p.maxLife * 0.6) {
-        p.opacity *= 0.96;
-      }
+      integrateParticle(p, elapsed);
 
       // Remove dead particles
       if (p.life >= p.maxLife || p.opacity < 0.01) {
@@ -298,59 +324,102 @@ export class DomainExpansionEffect {
       }
     }
 
-    // Update floating characters with per-character animation
-    const age = performance.now() - this.effectStartTime;
-    const isFadingOut = age > 2500;
-
-    for (let i = this.floatingChars.length - 1; i >= 0; i--) {
-      const char = this.floatingChars[i];
-      const charAge = now - char.startTime;
-
-      // Wait for delay
-      if (charAge < char.delay) continue;
-
-      // Calculate easing progress (0 to 1)
-      const animProgress = Math.min(1, (charAge - char.delay) / 400);
-      const easeOut = 1 - Math.pow(1 - animProgress, 3); // Cubic ease-out
-
-      // Animate position with easing
-      char.x += (char.targetX - char.x) * 0.15 * easeOut;
-      char.y += (char.targetY - char.y) * 0.15 * easeOut;
-      char.scale += (char.targetScale - char.scale) * 0.12;
-      char.rotation += (char.targetRotation - char.rotation) * 0.15;
-
-      if (isFadingOut) {
-        // Fade out phase - only decrease opacity
-        char.opacity -= 0.04;
-        if (char.opacity <= 0) {
-          this.floatingChars.splice(i, 1);
-        }
-      } else {
-        // Fade in phase - increase opacity toward 1
-        char.opacity += (1 - char.opacity) * 0.12;
-      }
-    }
-
     // Check if effect is complete
-    if (age > 3500 && this.particles.length === 0 && this.burstLines.length === 0 && this.floatingChars.length === 0) {
+    if (this.time >= this.timeline.duration && this.particles.length === 0) {
       this.isActive = false;
     }
   }
 
+  /**
+   * Freeze the effect clock; render() keeps showing the current moment
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Jump to `time` ms after the trigger, e.g. to scrub or follow an audio track
+   * The effect is re-simulated from the start; with a seed it is laid out
+   * again too, so seeking always gives the same picture for the same time
+   */
+  seek(time: number): void {
+    if (this.options.seed !== null) {
+      this.reseed();
+      this.start();
+    } else {
+      this.time = 0;
+      this.accumulator = 0;
+      this.particles = [];
+      this.emitted.clear();
+      this.emitInk();
+    }
+    this.isActive = true;
+
+    const stepSize = this.options.fixedStep ?? SEEK_STEP;
+    while (time - this.time >= stepSize) {
+      this.step(stepSize);
+    }
+    if (this.options.fixedStep !== null) {
+      this.accumulator = time - this.time;
+    } else if (time > this.time) {
+      this.step(time - this.time);
+    }
+    this.isActive = this.time < this.timeline.duration || this.particles.length > 0;
+  }
+
+  /**
+   * Draw the effect as it is `time` ms after the trigger on a cleared canvas
+   * With a seed the same time always gives the same pixels
+   */
+  renderAt(time: number): void {
+    this.seek(time);
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.render();
+  }
+
+  /**
+   * Current effect clock (ms since the trigger)
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  getTheme(): DomainTheme {
+    return this.theme;
+  }
+
+  getTimeline(): EffectTimeline {
+    return this.timeline;
+  }
+
+  /**
+   * Use another timeline from the next trigger on
+   */
+  setTimeline(timeline: EffectTimeline): void {
+    this.timeline = timeline;
+  }
+
   /**
    * Render the effect
    */
   render(): void {
-    if (!this.isActive && this.particles.length === 0 && this.burstLines.length === 0 && this.flashOpacity === 0) {
+    if (!this.isEffectActive()) {
       return;
     }
 
+    const time = this.time;
     this.ctx.save();
 
     // Apply screen shake
-    if (this.shakeIntensity > 0) {
-      this.ctx.translate(this.shakeOffset.x, this.shakeOffset.y);
-    }
+    this.ctx.translate(this.shakeOffset.x, this.shakeOffset.y);
 
     const centerX = this.canvas.width / 2;
     const centerY = this.canvas.height / 2;
@@ -381,21 +450,32 @@ export class DomainExpansionEffect {
 
     // Draw floating characters with per-character animation
     for (const char of this.floatingChars) {
-      if (char.opacity <= 0) continue;
+      const track = char.track;
+      const charAge = time - track.start - char.index * track.stagger;
+      const fadeOut = (track.start + track.duration - time) / track.fadeOut;
+      const opacity = Math.min(1, charAge / track.enter, fadeOut);
+      if (charAge < 0 || opacity <= 0) continue;
+
+      // Fly in from the scattered start, eased along the track
+      const progress = ease(track.easing, charAge / track.enter);
+      const x = char.startX + (char.targetX - char.startX) * progress;
+      const y = char.startY + (char.targetY - char.startY) * progress;
+      const scale = char.startScale + (1 - char.startScale) * progress;
+      const rotation = char.startRotation * (1 - progress);
 
       this.ctx.save();
-      this.ctx.translate(char.x, char.y);
-      this.ctx.rotate(char.rotation);
-      this.ctx.scale(char.scale, char.scale);
-      this.ctx.globalAlpha = char.opacity;
+      this.ctx.translate(x, y);
+      this.ctx.rotate(rotation);
+      this.ctx.scale(scale, scale);
+      this.ctx.globalAlpha = opacity;
 
       // Text shadow/glow - more intense
-      this.ctx.shadowColor = '#6b2a9b';
+      this.ctx.shadowColor = this.theme.glow;
       this.ctx.shadowBlur = 40;
       this.ctx.shadowOffsetX = 0;
       this.ctx.shadowOffsetY = 0;
 
-      this.ctx.font = 'bold 72px "Hiragino Mincho ProN", "Yu Mincho", serif';
+      this.ctx.font = `bold 72px ${this.theme.font}`;
       this.ctx.fillStyle = '#ffffff';
       this.ctx.textAlign = 'center';
       this.ctx.textBaseline = 'middle';
@@ -403,7 +483,7 @@ export class DomainExpansionEffect {
 
       // Outline
       this.ctx.shadowBlur = 0;
-      this.ctx.strokeStyle = '#1a0a2e';
+      this.ctx.strokeStyle = this.theme.outline;
       this.ctx.lineWidth = 3;
       this.ctx.strokeText(char.char, 0, 0);
 
@@ -411,20 +491,22 @@ export class DomainExpansionEffect {
     }
 
     // Screen flash
-    if (this.flashOpacity > 0) {
-      this.ctx.fillStyle = `rgba(255, 255, 255, ${this.flashOpacity * 0.7})`;
+    const flash = sampleKind(this.timeline, 'flash', time);
+    if (flash > 0) {
+      this.ctx.fillStyle = `rgba(255, 255, 255, ${flash})`;
       this.ctx.fillRect(-50, -50, this.canvas.width + 100, this.canvas.height + 100);
     }
 
     // Vignette effect during active effect
-    if (this.isActive) {
+    const vignette = sampleKind(this.timeline, 'vignette', time);
+    if (this.isActive && vignette > 0) {
       const gradient = this.ctx.createRadialGradient(
         centerX, centerY, 0,
         centerX, centerY, Math.max(this.canvas.width, this.canvas.height) * 0.7
       );
       gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
-      gradient.addColorStop(0.7, 'rgba(26, 10, 46, 0.3)');
-      gradient.addColorStop(1, 'rgba(10, 10, 10, 0.6)');
+      gradient.addColorStop(0.7, vignetteColor(this.theme.vignette[0], vignette));
+      gradient.addColorStop(1, vignetteColor(this.theme.vignette[1], vignette));
       this.ctx.fillStyle = gradient;
       this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     }
@@ -434,22 +516,29 @@ export class DomainExpansionEffect {
 
   private renderBurstLines(centerX: number, centerY: number, layer: number): void {
     for (const line of this.burstLines) {
-      if (line.layer !== layer || line.length === 0) continue;
+      const track = line.track;
+      if (track.layer !== layer) continue;
+
+      // Grow over the first part of the track, then fade out
+      const t = (this.time - track.start - line.delay) / track.duration;
+      if (t <= 0 || t >= 1) continue;
+      const length = line.targetLength * ease(track.easing, t / track.grow);
+      const opacity = t < track.grow ? track.opacity : track.opacity * (1 - (t - track.grow) / (1 - track.grow));
 
       this.ctx.save();
 
       // Create gradient for more dramatic effect
-      const startDist = Math.max(0, line.length - 150);
+      const startDist = Math.max(0, length - 150);
       const startX = centerX + Math.cos(line.angle) * startDist;
       const startY = centerY + Math.sin(line.angle) * startDist;
-      const endX = centerX + Math.cos(line.angle) * line.length;
-      const endY = centerY + Math.sin(line.angle) * line.length;
+      const endX = centerX + Math.cos(line.angle) * length;
+      const endY = centerY + Math.sin(line.angle) * length;
 
       // Gradient from transparent to white
       const gradient = this.ctx.createLinearGradient(startX, startY, endX, endY);
       gradient.addColorStop(0, `rgba(255, 255, 255, 0)`);
-      gradient.addColorStop(0.3, `rgba(255, 255, 255, ${line.opacity * 0.5})`);
-      gradient.addColorStop(1, `rgba(255, 255, 255, ${line.opacity})`);
+      gradient.addColorStop(0.3, `rgba(255, 255, 255, ${opacity * 0.5})`);
+      gradient.addColorStop(1, `rgba(255, 255, 255, ${opacity})`);
 
       this.ctx.strokeStyle = gradient;
       this.ctx.lineWidth = line.width;
@@ -465,35 +554,32 @@ export class DomainExpansionEffect {
   }
 
   private drawSplatter(p: InkParticle): void {
+    const shape = p.splatter;
+    if (!shape) return;
     this.ctx.fillStyle = p.color;
 
     // Draw irregular splatter shape
     this.ctx.beginPath();
-    const points = 7 + Math.floor(Math.random() * 4);
-    for (let i = 0; i < points; i++) {
-      const angle = (i / points) * Math.PI * 2;
-      const radius = p.size * (0.5 + Math.random() * 0.5);
-      const x = Math.cos(angle) * radius;
-      const y = Math.sin(angle) * radius;
+    shape.outline.forEach((radius, i) => {
+      const angle = (i / shape.outline.length) * Math.PI * 2;
+      const x = Math.cos(angle) * radius * p.size;
+      const y = Math.sin(angle) * radius * p.size;
       if (i === 0) {
         this.ctx.moveTo(x, y);
       } else {
         this.ctx.lineTo(x, y);
       }
-    }
+    });
     this.ctx.closePath();
     this.ctx.fill();
 
     // Add some small droplets around
-    for (let i = 0; i < 3; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = p.size * (0.8 + Math.random() * 0.5);
-      const dropSize = 2 + Math.random() * 4;
+    for (const droplet of shape.droplets) {
       this.ctx.beginPath();
       this.ctx.arc(
-        Math.cos(angle) * dist,
-        Math.sin(angle) * dist,
-        dropSize,
+        Math.cos(droplet.angle) * droplet.distance * p.size,
+        Math.sin(droplet.angle) * droplet.distance * p.size,
+        droplet.size,
         0,
         Math.PI * 2
       );
@@ -533,7 +619,7 @@ export class DomainExpansionEffect {
    * Check if effect is currently active
    */
   isEffectActive(): boolean {
-    return this.isActive || this.particles.length > 0 || this.burstLines.length > 0 || this.flashOpacity > 0;
+    return this.isActive || this.particles.length > 0;
   }
 
   /**
@@ -543,3 +629,58 @@ export class DomainExpansionEffect {
     return !this.isActive;
   }
 }
+
+export interface EffectFrameOptions {
+  // Trigger point, normalized like a landmark
+  centerPoint: Point2D;
+  mirrored: boolean;
+  seed: number;
+  timeline: EffectTimeline;
+  theme: DomainTheme;
+}
+
+export const DEFAULT_EFFECT_FRAME_OPTIONS: EffectFrameOptions = {
+  centerPoint: { x: 0.5, y: 0.5 },
+  mirrored: true,
+  seed: 1,
+  timeline: BUILTIN_TIMELINES[DOMAIN_EXPANSION],
+  theme: DEFAULT_THEME,
+};
+
+/**
+ * Render the effect `time` ms after a trigger onto `canvas`, e.g. an OffscreenCanvas
+ * The same options, time and canvas size always give the same frame
+ */
+export function renderEffectFrame(canvas: EffectCanvas, time: number, options: Partial<EffectFrameOptions> = {}): void {
+  const { centerPoint, mirrored, seed, timeline, theme } = { ...DEFAULT_EFFECT_FRAME_OPTIONS, ...options };
+  const effect = new DomainExpansionEffect(canvas, timeline, { seed });
+  effect.trigger(centerPoint, mirrored, theme);
+  effect.renderAt(time);
+}
+
+/**
+ * Move a particle `elapsed` ms forward
+ * Drag and gravity are integrated exactly, so the path doesn't depend on the step size
+ */
+function integrateParticle(p: InkParticle, elapsed: number): void {
+  const dt = elapsed / 1000;
+  const decay = Math.exp(-INK_DRAG * dt);
+  // Distance covered per px/s of velocity over the step, with drag
+  const travel = (1 - decay) / INK_DRAG;
+  // Fall speed where drag balances gravity
+  const terminal = INK_GRAVITY / INK_DRAG;
+
+  p.x += p.vx * travel;
+  p.y += (p.vy - terminal) * travel + terminal * dt;
+  p.vx *= decay;
+  p.vy = terminal + (p.vy - terminal) * decay;
+  p.rotation += p.rotationSpeed * dt;
+
+  // Fade only over the part of the step past the fade start
+  const fadeStart = p.maxLife * INK_FADE_START;
+  const fading = p.life + elapsed - Math.max(p.life, fadeStart);
+  if (fading > 0) {
+    p.opacity *= Math.exp((-INK_FADE * fading) / 1000);
+  }
+  p.life += elapsed;
+}
@@ -0,0 +1,104 @@
+/**
+ * Domain themes
+ * What makes one domain expansion look and sound different from another:
+ * ink palette, title lines and font, glow and vignette colors, the mix of
+ * ink particle shapes and the sound. The motion itself comes from the effect
+ * timeline, so every theme shares it. Themes are JSON (see ./themes).
+ */
+
+import { definitionFailure } from './pose-definition';
+import { Random } from './random';
+
+export type InkParticleType = 'splatter' | 'drop' | 'streak';
+
+// One color stop of the vignette; its opacity is scaled by the vignette track
+export interface VignetteStop {
+  rgb: [number, number, number];
+  opacity: number;
+}
+
+export interface DomainTheme {
+  name: string;
+  // Name of the domain as shown in the UI
+  label: string;
+  // Gestures and seal chains that expand this domain
+  gestures: string[];
+  // Title lines; each text track of the timeline shows the one at its `line`
+  title: string[];
+  // CSS font family list for the title
+  font: string;
+  glow: string;
+  outline: string;
+  // Ink colors, one picked at random per particle
+  palette: string[];
+  // Vignette at 70% of the radius and at the edge, at full strength
+  vignette: [VignetteStop, VignetteStop];
+  // Relative weight of each ink particle shape
+  particles: Record<InkParticleType, number>;
+  // Played on trigger, relative to the site root (public/)
+  sound: string;
+}
+
+const PARTICLE_TYPES: InkParticleType[] = ['splatter', 'drop', 'streak'];
+
+/**
+ * Pick a particle shape by the theme's weights
+ * Streak or not first, then drop or splatter: the draws the fixed 無量空処 mix
+ * always made, so seeded effects in that theme keep their layout
+ */
+export function pickParticleType(theme: DomainTheme, random: Random): InkParticleType {
+  const { streak, drop, splatter } = theme.particles;
+  if (random() < streak / (streak + drop + splatter)) return 'streak';
+  return random() < drop / (drop + splatter) ? 'drop' : 'splatter';
+}
+
+/**
+ * Vignette color stop at the track's current strength
+ */
+export function vignetteColor(stop: VignetteStop, strength: number): string {
+  return `rgba(${stop.rgb.join(', ')}, ${stop.opacity * strength})`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validate untrusted JSON as a domain theme
+ * Throws with a message naming the offending field
+ */
+export function parseDomainTheme(value: unknown): DomainTheme {
+  const fail = definitionFailure(value, 'domain theme');
+
+  if (typeof value !== 'object' || value === null) fail('expected an object');
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.name !== 'string' || def.name.length === 0) fail('name must be a non-empty string');
+  for (const key of ['label', 'font', 'glow', 'outline', 'sound']) {
+    if (typeof def[key] !== 'string') fail(`${key} must be a string`);
+  }
+  if (!isStringArray(def.gestures)) fail('gestures must be an array of strings');
+  if (!isStringArray(def.title)) fail('title must be an array of strings');
+  if (!isStringArray(def.palette) || def.palette.length === 0) fail('palette must be a non-empty array of colors');
+  const vignette = def.vignette as Record<string, unknown>[];
+  if (!Array.isArray(vignette) || vignette.length !== 2) fail('vignette must be [inner, outer] stops');
+  for (const stop of vignette) {
+    const rgb = stop?.rgb;
+    if (!Array.isArray(rgb) || rgb.length !== 3 || !rgb.every((n) => typeof n === 'number')) {
+      fail('vignette rgb must be [r, g, b]');
+    }
+    if (typeof stop.opacity !== 'number') fail('vignette opacity must be a number');
+  }
+
+  const particles = def.particles as Record<string, unknown>;
+  if (typeof particles !== 'object' || particles === null) fail('particles must be an object');
+  let total = 0;
+  for (const type of PARTICLE_TYPES) {
+    const weight = particles[type];
+    if (typeof weight !== 'number' || weight < 0) fail(`particles.${type} must be a non-negative number`);
+    total += weight as number;
+  }
+  if (total <= 0) fail('particles must have a positive weight');
+
+  return def as unknown as DomainTheme;
+}
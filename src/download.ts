@@ -0,0 +1,14 @@
+// How long the object URL outlives the click; some browsers start the download asynchronously (ms)
+const REVOKE_DELAY = 10000;
+
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { EffectTimeline, KeyframeTrack, ease, parseEffectTimeline, sampleKeyframes, sampleKind, trackProgress } from './effect-timeline';
+import { BUILTIN_TIMELINES } from './timelines';
+
+const flash: KeyframeTrack = {
+  kind: 'flash',
+  start: 100,
+  duration: 200,
+  keyframes: [
+    { at: 0.25, value: 0 },
+    { at: 0.5, value: 1 },
+    { at: 1, value: 0.5 },
+  ],
+};
+
+describe('ease', () => {
+  it('defaults to linear and clamps t to 0-1', () => {
+    expect(ease(undefined, 0.3)).toBe(0.3);
+    expect(ease('easeInQuad', -1)).toBe(0);
+    expect(ease('easeOutCubic', 2)).toBe(1);
+  });
+});
+
+describe('trackProgress', () => {
+  it('is null before the start and saturates at the end', () => {
+    expect(trackProgress(flash, 99)).toBeNull();
+    expect(trackProgress(flash, 200)).toBe(0.5);
+    expect(trackProgress(flash, 500)).toBe(1);
+  });
+
+  it('jumps straight to the end of a zero-length track', () => {
+    expect(trackProgress({ start: 50, duration: 0 }, 50)).toBe(1);
+  });
+});
+
+describe('sampleKeyframes', () => {
+  it('interpolates between neighbouring keyframes', () => {
+    // Progress 0.375, halfway from the first keyframe to the second
+    expect(sampleKeyframes(flash, 175)).toBe(0.5);
+    expect(sampleKeyframes(flash, 250)).toBe(0.75);
+  });
+
+  it('holds the first value before the track and the last after it', () => {
+    expect(sampleKeyframes(flash, 0)).toBe(0);
+    expect(sampleKeyframes(flash, 1000)).toBe(0.5);
+  });
+
+  it('eases each segment with the track easing', () => {
+    const eased: KeyframeTrack = { ...flash, easing: 'easeInQuad' };
+    expect(sampleKeyframes(eased, 175)).toBe(0.25);
+  });
+});
+
+describe('sampleKind', () => {
+  const timeline: EffectTimeline = {
+    name: 'test',
+    duration: 1000,
+    tracks: [
+      flash,
+      { kind: 'flash', start: 200, duration: 100, keyframes: [{ at: 0, value: 0.25 }] },
+      { kind: 'shake', start: 0, duration: 100, keyframes: [{ at: 0, value: 8 }] },
+    ],
+  };
+
+  it('adds up the tracks of one kind that have started', () => {
+    expect(sampleKind(timeline, 'flash', 150)).toBe(0);
+    expect(sampleKind(timeline, 'flash', 200)).toBe(1.25);
+    expect(sampleKind(timeline, 'shake', 150)).toBe(8);
+  });
+
+  it('is 0 for a kind with no tracks', () => {
+    expect(sampleKind(timeline, 'vignette', 150)).toBe(0);
+  });
+});
+
+describe('parseEffectTimeline', () => {
+  const valid = () => structuredClone(BUILTIN_TIMELINES.domainExpansion) as unknown as Record<string, unknown>;
+
+  it('accepts the built-in timelines', () => {
+    for (const timeline of Object.values(BUILTIN_TIMELINES)) {
+      expect(parseEffectTimeline(structuredClone(timeline))).toEqual(timeline);
+    }
+  });
+
+  it.each<[string, (def: Record<string, unknown>) => void, string]>([
+    ['a missing name', (def) => delete def.name, 'name must be a non-empty string'],
+    ['a negative duration', (def) => (def.duration = -1), 'duration must be a non-negative number'],
+    ['an unknown kind', (def) => (def.tracks = [{ kind: 'sparkle', start: 0, duration: 0 }]), 'tracks[0]: unknown kind "sparkle"'],
+    ['an unknown easing', (def) => (def.tracks = [{ ...flash, easing: 'bounce' }]), 'tracks[0]: unknown easing "bounce"'],
+    [
+      'keyframes out of order',
+      (def) => (def.tracks = [{ ...flash, keyframes: [{ at: 0.5, value: 0 }, { at: 0.2, value: 1 }] }]),
+      'tracks[0]: keyframe "at" must be ascending numbers between 0 and 1',
+    ],
+    ['empty keyframes', (def) => (def.tracks = [{ ...flash, keyframes: [] }]), 'tracks[0]: keyframes must be a non-empty array'],
+  ])('rejects %s', (_, mutate, message) => {
+    const def = valid();
+    mutate(def);
+    expect(() => parseEffectTimeline(def)).toThrow(message);
+  });
+
+  it('names the timeline in the error', () => {
+    expect(() => parseEffectTimeline({ name: 'broken', duration: 1 })).toThrow('Invalid effect timeline "broken": tracks must be an array');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Declarative effect timelines
+ * An effect is a set of tracks on one clock (ms since the trigger). Each
+ * track has a start, a duration and an easing; keyframed tracks interpolate
+ * values, the others spawn or animate their elements over that window.
+ * Timelines are JSON (see ./timelines) so effects can be retimed without code changes.
+ */
+
+import { definitionFailure } from './pose-definition';
+
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeOutExpo';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutExpo: (t) => (t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+};
+
+// A value at a point of the track, as a fraction of its duration (0-1)
+export interface Keyframe {
+  at: number;
+  value: number;
+}
+
+interface TrackTiming {
+  // ms after the trigger
+  start: number;
+  duration: number;
+  // Default linear
+  easing?: EasingName;
+}
+
+// Keyframed scalar: flash opacity, shake amplitude (px) or vignette strength (0-1)
+export interface KeyframeTrack extends TrackTiming {
+  kind: 'flash' | 'shake' | 'vignette';
+  keyframes: Keyframe[];
+}
+
+// Lines radiating from the screen center; each grows, then fades, within `duration`
+export interface BurstLinesTrack extends TrackTiming {
+  kind: 'burstLines';
+  // 0 = behind the ink, 1 = in front of it
+  layer: 0 | 1;
+  count: number;
+  // Random angle added to the even spacing (radians)
+  jitter: number;
+  length: [number, number];
+  width: [number, number];
+  opacity: number;
+  // Random extra delay per line (ms)
+  stagger: number;
+  // Fraction of the duration spent growing; the rest fades out
+  grow: number;
+}
+
+// Ink particles emitted from the trigger point, all at once when duration is 0
+export interface InkWaveTrack extends TrackTiming {
+  kind: 'inkWave';
+  count: number;
+  // Initial speed range (px/s)
+  speed: [number, number];
+  // Spawn area around the trigger point (px)
+  spread: number;
+}
+
+// One line of title text, flying in character by character and fading out at the end
+export interface TextTrack extends TrackTiming {
+  kind: 'text';
+  // Index of the theme's title line to show (see DomainTheme)
+  line: number;
+  // Vertical offset from the screen center (px)
+  offsetY: number;
+  // Delay between characters (ms)
+  stagger: number;
+  // Fly-in time per character (ms), eased with the track's easing
+  enter: number;
+  // Fade-out time at the end of the track (ms)
+  fadeOut: number;
+}
+
+export type EffectTrack = KeyframeTrack | BurstLinesTrack | InkWaveTrack | TextTrack;
+
+export interface EffectTimeline {
+  name: string;
+  // The effect counts as active until this time (ms), then ends once the last particle is gone
+  duration: number;
+  tracks: EffectTrack[];
+}
+
+export function ease(name: EasingName | undefined, t: number): number {
+  return EASINGS[name ?? 'linear'](Math.min(1, Math.max(0, t)));
+}
+
+/**
+ * Position within a track (0-1) at effect time `time`; null before it starts
+ */
+export function trackProgress(track: TrackTiming, time: number): number | null {
+  if (time < track.start) return null;
+  if (track.duration <= 0) return 1;
+  return Math.min(1, (time - track.start) / track.duration);
+}
+
+/**
+ * Keyframed value at effect time `time`, eased between neighbouring keyframes
+ * Holds the first value before the track and the last one after it
+ */
+export function sampleKeyframes(track: KeyframeTrack, time: number): number {
+  const keyframes = track.keyframes;
+  const t = trackProgress(track, time) ?? 0;
+  if (t <= keyframes[0].at) return keyframes[0].value;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const next = keyframes[i];
+    if (t <= next.at) {
+      const prev = keyframes[i - 1];
+      const span = next.at - prev.at;
+      const local = span > 0 ? (t - prev.at) / span : 1;
+      return prev.value + (next.value - prev.value) * ease(track.easing, local);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * Combined value of every keyframe track of one kind (they add up), 0 when there is none
+ */
+export function sampleKind(timeline: EffectTimeline, kind: KeyframeTrack['kind'], time: number): number {
+  let value = 0;
+  for (const track of timeline.tracks) {
+    if (track.kind === kind && time >= track.start) {
+      value += sampleKeyframes(track, time);
+    }
+  }
+  return value;
+}
+
+const KEYFRAME_KINDS = ['flash', 'shake', 'vignette'];
+
+function isRange(value: unknown): boolean {
+  return Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === 'number') && value[0] <= value[1];
+}
+
+/**
+ * Validate untrusted JSON as an effect timeline
+ * Throws with a message naming the offending track
+ */
+export function parseEffectTimeline(value: unknown): EffectTimeline {
+  const fail = definitionFailure(value, 'effect timeline');
+
+  if (typeof value !== 'object' || value === null) fail('expected an object');
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.name !== 'string' || def.name.length === 0) fail('name must be a non-empty string');
+  if (typeof def.duration !== 'number' || def.duration < 0) fail('duration must be a non-negative number');
+  if (!Array.isArray(def.tracks)) fail('tracks must be an array');
+
+  (def.tracks as Record<string, unknown>[]).forEach((track, i) => {
+    const where = `tracks[${i}]`;
+    if (typeof track !== 'object' || track === null) fail(`${where} must be an object`);
+    if (typeof track.start !== 'number' || track.start < 0) fail(`${where}: start must be a non-negative number`);
+    if (typeof track.duration !== 'number' || track.duration < 0) fail(`${where}: duration must be a non-negative number`);
+    if (track.easing !== undefined && !(typeof track.easing === 'string' && track.easing in EASINGS)) {
+      fail(`${where}: unknown easing "${String(track.easing)}"`);
+    }
+
+    if (KEYFRAME_KINDS.includes(track.kind as string)) {
+      const keyframes = track.keyframes as Record<string, unknown>[];
+      if (!Array.isArray(keyframes) || keyframes.length === 0) fail(`${where}: keyframes must be a non-empty array`);
+      let last = -Infinity;
+      for (const keyframe of keyframes) {
+        if (typeof keyframe.at !== 'number' || keyframe.at < 0 || keyframe.at > 1 || keyframe.at < last) {
+          fail(`${where}: keyframe "at" must be ascending numbers between 0 and 1`);
+        }
+        if (typeof keyframe.value !== 'number') fail(`${where}: keyframe value must be a number`);
+        last = keyframe.at as number;
+      }
+      return;
+    }
+
+    switch (track.kind) {
+      case 'burstLines':
+        if (track.layer !== 0 && track.layer !== 1) fail(`${where}: layer must be 0 or 1`);
+        for (const key of ['count', 'jitter', 'opacity', 'stagger']) {
+          if (typeof track[key] !== 'number') fail(`${where}: ${key} must be a number`);
+        }
+        if (!isRange(track.length) || !isRange(track.width)) fail(`${where}: length/width must be [min, max]`);
+        if (typeof track.grow !== 'number' || track.grow <= 0 || track.grow > 1) fail(`${where}: grow must be in (0, 1]`);
+        break;
+      case 'inkWave':
+        if (typeof track.count !== 'number' || typeof track.spread !== 'number') fail(`${where}: count/spread must be numbers`);
+        if (!isRange(track.speed)) fail(`${where}: speed must be [min, max]`);
+        break;
+      case 'text':
+        if (!Number.isInteger(track.line) || (track.line as number) < 0) fail(`${where}: line must be a non-negative integer`);
+        for (const key of ['offsetY', 'stagger', 'enter', 'fadeOut']) {
+          if (typeof track[key] !== 'number') fail(`${where}: ${key} must be a number`);
+        }
+        break;
+      default:
+        fail(`${where}: unknown kind "${String(track.kind)}"`);
+    }
+  });
+
+  return def as unknown as EffectTimeline;
+}
@@ -0,0 +1,150 @@
+/**
+ * Landmark fixture library
+ * Single frames of synthetic hands with the gestures each one should
+ * produce. Multi-frame sessions in LandmarkRecorder's NDJSON format live
+ * under ./recordings
+ */
+
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Point2D } from '../hand-landmarks';
+import { GASSHO, MURYO_KUSHO, PEACE_SIGN } from '../poses';
+import { SyntheticHandOptions, landmarkerResult, syntheticHand } from './synthetic-hand';
+
+export interface HandFixture {
+  name: string;
+  description: string;
+  result: HandLandmarkerResult;
+  // Gestures that must be detected on this frame; every other built-in must not be
+  detected: string[];
+  // Expected detection details, keyed by gesture name
+  expected?: Record<string, { minConfidence?: number; maxConfidence?: number; centerPoint?: Point2D }>;
+  // Gestures that this frame keeps once they are already held (exit thresholds)
+  heldOnly?: string[];
+}
+
+// Index leaning onto the middle finger so the two tips meet
+const SEAL: SyntheticHandOptions['fingers'] = {
+  thumb: { curl: 60 },
+  index: { spread: 15 },
+  ring: { curl: 100 },
+  pinky: { curl: 100 },
+};
+
+// Both palms pressed flat together, wrists `gap` apart
+function palmsTogether(gap: number): HandLandmarkerResult {
+  return landmarkerResult([
+    { landmarks: syntheticHand({ position: { x: 0.5 - gap / 2, y: 0.7 } }), handedness: 'Right' },
+    { landmarks: syntheticHand({ position: { x: 0.5 + gap / 2, y: 0.7 } }), handedness: 'Left' },
+  ]);
+}
+
+function oneHand(options: Partial<SyntheticHandOptions>, handedness: 'Left' | 'Right' = 'Right'): HandLandmarkerResult {
+  return landmarkerResult([{ landmarks: syntheticHand(options), handedness }]);
+}
+
+export const HAND_FIXTURES: HandFixture[] = [
+  {
+    name: 'empty',
+    description: 'No hands in the frame',
+    result: landmarkerResult([]),
+    detected: [],
+  },
+  {
+    name: 'open-palm',
+    description: 'All fingers extended and spread',
+    result: oneHand({
+      fingers: { index: { spread: -10 }, ring: { spread: 8 }, pinky: { spread: 15 } },
+    }),
+    detected: [],
+  },
+  {
+    name: 'fist',
+    description: 'Every finger curled toward the camera',
+    result: oneHand({
+      fingers: {
+        thumb: { curl: 60 },
+        index: { curl: 100 },
+        middle: { curl: 100 },
+        ring: { curl: 100 },
+        pinky: { curl: 100 },
+      },
+    }),
+    detected: [],
+  },
+  {
+    name: 'muryo-kusho',
+    description: 'Upright seal, index and middle tips touching',
+    result: oneHand({ fingers: SEAL }),
+    detected: [MURYO_KUSHO],
+    expected: { [MURYO_KUSHO]: { minConfidence: 0.3, centerPoint: { x: 0.498, y: 0.502 } } },
+  },
+  {
+    name: 'muryo-kusho-left',
+    description: 'The same seal formed with the left hand',
+    result: oneHand({ fingers: SEAL }, 'Left'),
+    detected: [MURYO_KUSHO],
+    expected: { [MURYO_KUSHO]: { centerPoint: { x: 0.498, y: 0.502 } } },
+  },
+  {
+    name: 'near-miss-fingers-apart',
+    description: 'Index and middle straight and side by side, tips just too far apart to enter the seal',
+    result: oneHand({ fingers: { ...SEAL, index: { spread: 0 } } }),
+    detected: [],
+    heldOnly: [MURYO_KUSHO],
+  },
+  {
+    name: 'near-miss-middle-curled',
+    description: 'Index up with the middle finger curled away',
+    result: oneHand({ fingers: { ...SEAL, middle: { curl: 100 } } }),
+    detected: [],
+  },
+  {
+    name: 'peace-sign',
+    description: 'Index and middle fingers spread into a V, ring and pinky curled',
+    result: oneHand({
+      fingers: { ...SEAL, index: { spread: -10 }, middle: { spread: 10 } },
+    }),
+    detected: [PEACE_SIGN],
+    expected: { [PEACE_SIGN]: { centerPoint: { x: 0.486, y: 0.502 } } },
+  },
+  {
+    name: 'rotated-seal',
+    description: 'Seal with the hand rolled 30 degrees clockwise',
+    result: oneHand({ roll: 30, fingers: SEAL }),
+    detected: [MURYO_KUSHO],
+    expected: { [MURYO_KUSHO]: { centerPoint: { x: 0.597, y: 0.527 } } },
+  },
+  {
+    name: 'rotated-seal-sideways',
+    description: 'Seal with the hand rolled 120 degrees, fingers pointing down and to the side',
+    result: oneHand({ roll: 120, fingers: SEAL }),
+    detected: [],
+  },
+  {
+    name: 'seal-at-left-edge',
+    description: 'Seal squeezed against the left and top edges of the frame',
+    result: oneHand({ position: { x: 0.03, y: 0.25 }, fingers: SEAL }),
+    detected: [MURYO_KUSHO],
+    expected: { [MURYO_KUSHO]: { centerPoint: { x: 0.028, y: 0.052 } } },
+  },
+  {
+    name: 'seal-past-top-edge',
+    description: 'Seal whose middle fingertip is reported just outside the frame',
+    result: oneHand({ position: { x: 0.98, y: 0.2 }, fingers: SEAL }),
+    detected: [MURYO_KUSHO],
+    expected: { [MURYO_KUSHO]: { centerPoint: { x: 0.978, y: 0.002 } } },
+  },
+  {
+    name: 'gassho',
+    description: 'Both palms pressed together in front of the chest',
+    result: palmsTogether(0.02),
+    detected: [GASSHO],
+    expected: { [GASSHO]: { minConfidence: 0.3, centerPoint: { x: 0.503, y: 0.633 } } },
+  },
+  {
+    name: 'gassho-hands-apart',
+    description: 'Palms facing each other but a hand width apart',
+    result: palmsTogether(0.1),
+    detected: [],
+  },
+];
@@ -0,0 +1,102 @@
+/**
+ * Synthetic hand builder for tests
+ * Produces the 21 MediaPipe landmarks of an idealized hand from a handful
+ * of parameters, so fixtures can describe poses instead of raw coordinates
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Point2D } from '../hand-landmarks';
+import { FingerName } from '../pose-definition';
+
+export interface FingerShape {
+  // Bend at each of the three joints, toward the camera (degrees, 0 = straight)
+  curl: number;
+  // Sideways angle in the image plane (degrees, positive toward the pinky)
+  spread: number;
+}
+
+export interface SyntheticHandOptions {
+  // Wrist position (normalized image coordinates)
+  position: Point2D;
+  // Wrist → middle-finger MCP length (normalized)
+  scale: number;
+  // Rotation about the wrist in the image plane (degrees, clockwise, 0 = fingers up)
+  roll: number;
+  fingers: Partial<Record<FingerName, Partial<FingerShape>>>;
+}
+
+interface FingerLayout {
+  // Base joint in hand units (wrist at the origin, middle MCP at (0, -1))
+  base: Point2D;
+  // Segment lengths from the base joint outward, in hand units
+  segments: [number, number, number];
+  // Resting direction (degrees from straight up, positive toward the pinky)
+  angle: number;
+}
+
+const LAYOUT: Record<FingerName, FingerLayout> = {
+  thumb: { base: { x: -0.35, y: -0.3 }, segments: [0.35, 0.3, 0.25], angle: -45 },
+  index: { base: { x: -0.3, y: -0.95 }, segments: [0.45, 0.28, 0.25], angle: 0 },
+  middle: { base: { x: 0, y: -1 }, segments: [0.5, 0.3, 0.27], angle: 0 },
+  ring: { base: { x: 0.28, y: -0.95 }, segments: [0.45, 0.28, 0.25], angle: 0 },
+  pinky: { base: { x: 0.52, y: -0.85 }, segments: [0.35, 0.22, 0.2], angle: 0 },
+};
+
+// Landmark order matches HAND_LANDMARKS: wrist, then four joints per finger
+const FINGER_ORDER: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+export function syntheticHand(options: Partial<SyntheticHandOptions> = {}): NormalizedLandmark[] {
+  const { position = { x: 0.5, y: 0.7 }, scale = 0.1, roll = 0, fingers = {} } = options;
+  const rollRad = (roll * Math.PI) / 180;
+  const cos = Math.cos(rollRad);
+  const sin = Math.sin(rollRad);
+
+  // Hand units → image coordinates
+  const place = (x: number, y: number, z: number): NormalizedLandmark => ({
+    x: position.x + (x * cos - y * sin) * scale,
+    y: position.y + (x * sin + y * cos) * scale,
+    z: z * scale,
+    visibility: 0,
+  });
+
+  const landmarks = [place(0, 0, 0)];
+  for (const finger of FINGER_ORDER) {
+    const layout = LAYOUT[finger];
+    const curl = fingers[finger]?.curl ?? 0;
+    const spread = ((layout.angle + (fingers[finger]?.spread ?? 0)) * Math.PI) / 180;
+
+    let x = layout.base.x;
+    let y = layout.base.y;
+    let z = 0;
+    landmarks.push(place(x, y, z));
+
+    // Each joint tips the finger further from the image plane toward the camera
+    let bent = 0;
+    for (const length of layout.segments) {
+      bent += (curl * Math.PI) / 180;
+      const planar = Math.cos(bent) * length;
+      x += Math.sin(spread) * planar;
+      y -= Math.cos(spread) * planar;
+      z -= Math.sin(bent) * length;
+      landmarks.push(place(x, y, z));
+    }
+  }
+  return landmarks;
+}
+
+/**
+ * Wrap hands into a landmarker result (labels are MediaPipe handedness)
+ */
+export function landmarkerResult(
+  hands: { landmarks: NormalizedLandmark[]; handedness: 'Left' | 'Right' }[]
+): HandLandmarkerResult {
+  const handedness = hands.map((hand, i) => [
+    { score: 0.95, index: i, categoryName: hand.handedness, displayName: hand.handedness },
+  ]);
+  return {
+    landmarks: hands.map((hand) => hand.landmarks),
+    worldLandmarks: [],
+    handedness,
+    handednesses: handedness,
+  };
+}
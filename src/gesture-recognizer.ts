@@ -0,0 +1,58 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Point2D } from './hand-landmarks';
+
+export type LandmarkInput = 'raw' | 'smoothed';
+
+export interface GestureDetection {
+  // Name of the recognizer that produced this detection
+  name: string;
+  detected: boolean;
+  // Confidence score (0-1)
+  confidence: number;
+  // Where the gesture is anchored (normalized 0-1), null when not detected
+  centerPoint: Point2D | null;
+  // Index into HandLandmarkerResult.landmarks of the hand that matched
+  handIndex: number | null;
+  // Every hand involved, for gestures that span both hands
+  handIndices?: number[];
+}
+
+/**
+ * A recognizer inspects one frame of raw landmarker output and reports
+ * whether its gesture is present
+ */
+export interface GestureRecognizer {
+  readonly name: string;
+  // Which landmarks to receive when HandTracker has landmark smoothing on (default raw)
+  readonly input?: LandmarkInput;
+  // `handIds` are the persistent IDs of the hands in detectionResult, in the same order, when known
+  recognize(detectionResult: HandLandmarkerResult, handIds?: number[]): GestureDetection;
+}
+
+/**
+ * Run every recognizer on one frame, keyed by recognizer name
+ * Recognizers that prefer smoothed landmarks fall back to raw when smoothedHands is null
+ */
+export function recognizeGestures(
+  recognizers: Iterable<GestureRecognizer>,
+  detectionResult: HandLandmarkerResult,
+  smoothedHands: HandLandmarkerResult | null = null,
+  handIds: number[] | null = null
+): Record<string, GestureDetection> {
+  const gestures: Record<string, GestureDetection> = {};
+  for (const recognizer of recognizers) {
+    const input = recognizer.input === 'smoothed' && smoothedHands ? smoothedHands : detectionResult;
+    gestures[recognizer.name] = recognizer.recognize(input, handIds ?? undefined);
+  }
+  return gestures;
+}
+
+export function noDetection(name: string): GestureDetection {
+  return {
+    name,
+    detected: false,
+    confidence: 0,
+    centerPoint: null,
+    handIndex: null,
+  };
+}
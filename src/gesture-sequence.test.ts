@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { GestureSequenceDefinition, GestureSequenceRecognizer, SequenceEvent } from './gesture-sequence';
+import { recognizeGestures } from './gesture-recognizer';
+import { BUILTIN_SEQUENCES, GASSHO, MURYO_KUSHO, PEACE_SIGN, createBuiltinRecognizers } from './poses';
+import { HAND_FIXTURES } from './fixtures/hands';
+
+// 合掌 held 500ms, at most 1500ms apart from 無量空処 held 1000ms
+const GASSHO_MURYO_KUSHO = BUILTIN_SEQUENCES.find((sequence) => sequence.name === 'gasshoMuryoKusho')!;
+
+const THREE_SEALS: GestureSequenceDefinition = {
+  name: 'threeSeals',
+  steps: [
+    { gesture: PEACE_SIGN, minHold: 200 },
+    { gesture: GASSHO, minHold: 200 },
+    { gesture: MURYO_KUSHO, minHold: 200 },
+  ],
+};
+
+const FRAME_MS = 50;
+
+/**
+ * Synthetic frame stream: each segment shows one fixture for `duration` ms at 20 fps
+ * Returns every event with the recognizer, so tests can look at its progress too
+ */
+function play(definition: GestureSequenceDefinition, segments: [fixture: string, duration: number][]) {
+  const sequence = new GestureSequenceRecognizer(definition);
+  const recognizers = createBuiltinRecognizers();
+  const events: SequenceEvent[] = [];
+  let timestamp = 0;
+  for (const [name, duration] of segments) {
+    const fixture = HAND_FIXTURES.find((candidate) => candidate.name === name)!;
+    for (let end = timestamp + duration; timestamp < end; timestamp += FRAME_MS) {
+      events.push(...sequence.update(recognizeGestures(recognizers, fixture.result), timestamp));
+    }
+  }
+  return { sequence, events };
+}
+
+function summary(events: SequenceEvent[]): string[] {
+  return events.map((event) => (event.type === 'reset' ? `reset:${event.reason}` : `${event.type}:${'step' in event ? event.step : ''}`));
+}
+
+describe('GestureSequenceRecognizer', () => {
+  it('completes when every seal is held long enough, in order', () => {
+    const { events } = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['muryo-kusho', 1100]]);
+    expect(summary(events)).toEqual([
+      'step-started:0',
+      'step-completed:0',
+      'step-started:1',
+      'step-completed:1',
+      'completed:',
+    ]);
+
+    const completed = events[events.length - 1];
+    expect(completed.type === 'completed' && completed.detection.name).toBe(MURYO_KUSHO);
+    expect(completed.timestamp).toBe(600 + 1000);
+  });
+
+  it('resets when a seal is released before its minimum hold', () => {
+    const { events } = play(GASSHO_MURYO_KUSHO, [['gassho', 300], ['empty', 200], ['muryo-kusho', 1100]]);
+    expect(summary(events)).toEqual(['step-started:0', 'reset:released']);
+  });
+
+  it('waits up to maxGap between seals, then resets', () => {
+    const inTime = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['empty', 1400], ['muryo-kusho', 1100]]);
+    expect(summary(inTime.events)).toContain('completed:');
+
+    const late = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['empty', 1600], ['muryo-kusho', 1100]]);
+    expect(summary(late.events)).toEqual(['step-started:0', 'step-completed:0', 'reset:timeout']);
+  });
+
+  it('resets when a later seal of the chain comes out of order', () => {
+    const { events } = play(THREE_SEALS, [['peace-sign', 300], ['empty', 100], ['muryo-kusho', 300]]);
+    expect(summary(events)).toEqual(['step-started:0', 'step-completed:0', 'reset:out-of-order']);
+  });
+
+  it('does not start again until the final seal is released', () => {
+    const held = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['muryo-kusho', 3000]]);
+    expect(summary(held.events).filter((event) => event === 'completed:')).toHaveLength(1);
+    expect(held.events[held.events.length - 1].type).toBe('completed');
+
+    const again = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['muryo-kusho', 1500], ['empty', 100], ['gassho', 100]]);
+    expect(summary(again.events).slice(-2)).toEqual(['completed:', 'step-started:0']);
+  });
+
+  it('reports progress through the steps and timestamps every event', () => {
+    const holding = play(GASSHO_MURYO_KUSHO, [['gassho', 300]]);
+    expect(holding.sequence.getProgress()).toEqual({ step: 0, stepCount: 2, state: 'holding', holdProgress: 250 / 500 });
+
+    const waiting = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['empty', 100]]);
+    expect(waiting.sequence.getProgress()).toEqual({ step: 1, stepCount: 2, state: 'waiting', holdProgress: 0 });
+
+    const done = play(GASSHO_MURYO_KUSHO, [['gassho', 600], ['muryo-kusho', 1100]]);
+    expect(done.sequence.getProgress().state).toBe('idle');
+    expect(done.events.map((event) => event.timestamp)).toEqual([0, 500, 600, 1600, 1600]);
+    for (const event of done.events) {
+      expect(event.sequence).toBe('gasshoMuryoKusho');
+    }
+  });
+});
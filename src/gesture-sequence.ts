@@ -0,0 +1,198 @@
+/**
+ * Gesture sequences (seal chains)
+ * A state machine over per-frame gesture detections that fires only when
+ * seals are formed in order, each held long enough, with short enough gaps
+ */
+
+import { GestureDetection } from './gesture-recognizer';
+import { definitionFailure, isOptionalNumber } from './pose-definition';
+
+export interface SequenceStep {
+  // Recognizer name, as keyed in HandTrackingResult.gestures
+  gesture: string;
+  // How long the seal must be held before it counts (ms)
+  minHold: number;
+  // Longest pause allowed between releasing this seal and forming the next (ms)
+  maxGap?: number;
+}
+
+export interface GestureSequenceDefinition {
+  name: string;
+  description?: string;
+  steps: SequenceStep[];
+}
+
+export type SequenceResetReason = 'released' | 'timeout' | 'out-of-order';
+
+export type SequenceEvent =
+  | { type: 'step-started'; sequence: string; step: number; gesture: string; timestamp: number }
+  | { type: 'step-completed'; sequence: string; step: number; gesture: string; timestamp: number }
+  | { type: 'completed'; sequence: string; detection: GestureDetection; timestamp: number }
+  | { type: 'reset'; sequence: string; step: number; reason: SequenceResetReason; timestamp: number };
+
+export interface SequenceProgress {
+  // Index of the step being held or awaited
+  step: number;
+  stepCount: number;
+  state: 'idle' | 'holding' | 'waiting';
+  // 0-1 hold progress of the current step
+  holdProgress: number;
+}
+
+export const DEFAULT_MAX_GAP = 1000;
+
+type State =
+  | { type: 'idle' }
+  | { type: 'holding'; step: number; since: number; held: boolean }
+  | { type: 'waiting'; step: number; since: number };
+
+export class GestureSequenceRecognizer {
+  readonly name: string;
+  readonly definition: GestureSequenceDefinition;
+
+  private state: State = { type: 'idle' };
+  private lastTimestamp = 0;
+  // After completing, wait until the final seal is released before re-arming
+  private awaitingRelease = false;
+
+  constructor(definition: GestureSequenceDefinition) {
+    this.definition = parseGestureSequenceDefinition(definition);
+    this.name = definition.name;
+  }
+
+  /**
+   * Feed one frame of gesture output
+   * Returns the events the frame produced, in order
+   */
+  update(gestures: Record<string, GestureDetection>, timestamp: number): SequenceEvent[] {
+    const events: SequenceEvent[] = [];
+    const steps = this.definition.steps;
+    const isDetected = (step: number) => gestures[steps[step].gesture]?.detected === true;
+    this.lastTimestamp = timestamp;
+
+    if (this.awaitingRelease) {
+      if (isDetected(steps.length - 1)) return events;
+      this.awaitingRelease = false;
+    }
+
+    if (this.state.type === 'holding') {
+      const { step, since } = this.state;
+
+      if (!this.state.held) {
+        if (!isDetected(step)) {
+          this.resetChain('released', timestamp, events);
+        } else if (timestamp - since >= steps[step].minHold) {
+          this.state.held = true;
+          events.push({ type: 'step-completed', sequence: this.name, step, gesture: steps[step].gesture, timestamp });
+
+          if (step === steps.length - 1) {
+            events.push({ type: 'completed', sequence: this.name, detection: gestures[steps[step].gesture], timestamp });
+            this.state = { type: 'idle' };
+            this.awaitingRelease = true;
+          }
+          return events;
+        } else {
+          return events;
+        }
+      } else {
+        // Held long enough: move on when the next seal appears, or start the gap timer on release
+        if (isDetected(step + 1)) {
+          this.startStep(step + 1, timestamp, events);
+        } else if (!isDetected(step)) {
+          this.state = { type: 'waiting', step: step + 1, since: timestamp };
+        }
+        return events;
+      }
+    }
+
+    if (this.state.type === 'waiting') {
+      const { step, since } = this.state;
+      const previous = steps[step - 1];
+
+      if (isDetected(step)) {
+        this.startStep(step, timestamp, events);
+        return events;
+      }
+
+      // Any other seal of the chain (other than the one being released) breaks the order
+      const outOfOrder = steps.some((other, i) =>
+        other.gesture !== steps[step].gesture && other.gesture !== previous.gesture && isDetected(i)
+      );
+      if (outOfOrder) {
+        this.resetChain('out-of-order', timestamp, events);
+      } else if (timestamp - since > (previous.maxGap ?? DEFAULT_MAX_GAP)) {
+        this.resetChain('timeout', timestamp, events);
+      } else {
+        return events;
+      }
+    }
+
+    // Idle (or just reset): start the chain on its first seal
+    if (isDetected(0)) {
+      this.startStep(0, timestamp, events);
+    }
+    return events;
+  }
+
+  getProgress(): SequenceProgress {
+    const stepCount = this.definition.steps.length;
+    switch (this.state.type) {
+      case 'idle':
+        return { step: 0, stepCount, state: 'idle', holdProgress: 0 };
+      case 'waiting':
+        return { step: this.state.step, stepCount, state: 'waiting', holdProgress: 0 };
+      case 'holding': {
+        const minHold = this.definition.steps[this.state.step].minHold;
+        const holdProgress = minHold > 0 ? Math.min(1, (this.lastTimestamp - this.state.since) / minHold) : 1;
+        return { step: this.state.step, stepCount, state: 'holding', holdProgress };
+      }
+    }
+  }
+
+  /**
+   * Drop any partial chain without emitting events
+   */
+  reset(): void {
+    this.state = { type: 'idle' };
+    this.awaitingRelease = false;
+  }
+
+  private resetChain(reason: SequenceResetReason, timestamp: number, events: SequenceEvent[]): void {
+    if (this.state.type !== 'idle') {
+      events.push({ type: 'reset', sequence: this.name, step: this.state.step, reason, timestamp });
+    }
+    this.state = { type: 'idle' };
+  }
+
+  private startStep(step: number, timestamp: number, events: SequenceEvent[]): void {
+    this.state = { type: 'holding', step, since: timestamp, held: false };
+    events.push({
+      type: 'step-started',
+      sequence: this.name,
+      step,
+      gesture: this.definition.steps[step].gesture,
+      timestamp,
+    });
+  }
+}
+
+/**
+ * Validate untrusted JSON as a gesture sequence definition
+ */
+export function parseGestureSequenceDefinition(value: unknown): GestureSequenceDefinition {
+  const fail = definitionFailure(value, 'gesture sequence');
+
+  if (typeof value !== 'object' || value === null) fail('expected an object');
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.name !== 'string' || def.name.length === 0) fail('name must be a non-empty string');
+  if (!Array.isArray(def.steps) || def.steps.length === 0) fail('steps must be a non-empty array');
+
+  (def.steps as Record<string, unknown>[]).forEach((step, i) => {
+    if (typeof step?.gesture !== 'string') fail(`steps[${i}].gesture must be a string`);
+    if (typeof step.minHold !== 'number' || step.minHold < 0) fail(`steps[${i}].minHold must be a non-negative number`);
+    if (!isOptionalNumber(step.maxGap)) fail(`steps[${i}].maxGap must be a number`);
+  });
+
+  return def as unknown as GestureSequenceDefinition;
+}
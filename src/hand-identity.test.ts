@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { HandIdentityTracker, applyVotedHandedness, optimalAssignment } from './hand-identity';
+import { landmarkerResult, syntheticHand } from './fixtures/synthetic-hand';
+
+type Label = 'Left' | 'Right';
+
+// Hands as [wrist x, label], all at the same height
+function frame(...hands: [number, Label][]) {
+  return landmarkerResult(hands.map(([x, handedness]) => ({
+    landmarks: syntheticHand({ position: { x, y: 0.7 } }),
+    handedness,
+  })));
+}
+
+describe('optimalAssignment', () => {
+  it('minimizes the total cost instead of matching greedily', () => {
+    // Greedy would give row 0 its cheapest column and leave row 1 with a cost of 10
+    expect(optimalAssignment([[1, 2], [1, 10]], 100)).toEqual([1, 0]);
+  });
+
+  it('leaves pairs above maxCost unassigned', () => {
+    expect(optimalAssignment([[0.5], [0.1]], 0.3)).toEqual([-1, 0]);
+    expect(optimalAssignment([[0.5, 0.6]], 0.3)).toEqual([-1]);
+  });
+
+  it('prefers matching more rows over a lower total', () => {
+    expect(optimalAssignment([[0.1, 0.2], [0.15, 9]], 1)).toEqual([1, 0]);
+  });
+
+  it('handles no rows or no columns', () => {
+    expect(optimalAssignment([], 1)).toEqual([]);
+    expect(optimalAssignment([[], []], 1)).toEqual([-1, -1]);
+  });
+});
+
+describe('HandIdentityTracker', () => {
+  it('keeps IDs with the hands when MediaPipe reorders them', () => {
+    const tracker = new HandIdentityTracker();
+    const first = tracker.update(frame([0.3, 'Right'], [0.7, 'Left']), 0);
+    const swapped = tracker.update(frame([0.72, 'Left'], [0.31, 'Right']), 33);
+
+    expect(swapped.map((hand) => hand.id)).toEqual([first[1].id, first[0].id]);
+    expect(swapped.map((hand) => hand.index)).toEqual([0, 1]);
+    expect(swapped[0].age).toBe(33);
+  });
+
+  it('keeps an ID through a short occlusion, not a long one', () => {
+    const tracker = new HandIdentityTracker({ maxMissingMs: 500 });
+    const [hand] = tracker.update(frame([0.5, 'Right']), 0);
+    tracker.update(frame(), 100);
+
+    expect(tracker.update(frame([0.52, 'Right']), 400)[0].id).toBe(hand.id);
+
+    tracker.update(frame(), 500);
+    expect(tracker.update(frame([0.52, 'Right']), 1000)[0].id).not.toBe(hand.id);
+  });
+
+  it('gives a hand that jumps too far a new ID', () => {
+    const tracker = new HandIdentityTracker({ maxMatchDistance: 0.25 });
+    const [hand] = tracker.update(frame([0.2, 'Right']), 0);
+    expect(tracker.update(frame([0.8, 'Right']), 33)[0].id).not.toBe(hand.id);
+  });
+
+  it('votes out a one-frame handedness flip', () => {
+    const tracker = new HandIdentityTracker({ voteWindow: 15 });
+    for (let i = 0; i < 10; i++) {
+      tracker.update(frame([0.5, 'Right']), i * 33);
+    }
+    const flipped = frame([0.5, 'Left']);
+    const hands = tracker.update(flipped, 330);
+
+    expect(hands[0]).toMatchObject({ handedness: 'Right', rawHandedness: 'Left' });
+    const corrected = applyVotedHandedness(flipped, hands);
+    expect(corrected.handednesses[0][0].categoryName).toBe('Right');
+    // The input is left untouched
+    expect(flipped.handednesses[0][0].categoryName).toBe('Left');
+  });
+
+  it('follows a hand that really changes label once the votes turn', () => {
+    const tracker = new HandIdentityTracker({ voteWindow: 5 });
+    for (let i = 0; i < 5; i++) {
+      tracker.update(frame([0.5, 'Right']), i * 33);
+    }
+    let hands = tracker.update(frame([0.5, 'Left']), 165);
+    for (let i = 1; i < 3; i++) {
+      hands = tracker.update(frame([0.5, 'Left']), 165 + i * 33);
+    }
+    expect(hands[0].handedness).toBe('Left');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Hand identity tracking
+ * Gives each hand a persistent ID across frames by matching palm positions,
+ * survives short occlusions, and votes handedness over a sliding window so
+ * a one-frame label flip from MediaPipe doesn't swap hands
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Point2D } from './hand-landmarks';
+import { palmCentroid } from './two-hand-analysis';
+
+export type Handedness = 'Left' | 'Right';
+
+export interface TrackedHand {
+  // Persistent ID, stable while the hand stays tracked
+  id: number;
+  // Time since the hand was first seen (ms)
+  age: number;
+  // Index into HandLandmarkerResult.landmarks for this frame
+  index: number;
+  // Handedness after voting
+  handedness: Handedness;
+  // Label MediaPipe reported on this frame
+  rawHandedness: Handedness | null;
+}
+
+export interface HandIdentityOptions {
+  // Palm centers further apart than this between frames never match (normalized units)
+  maxMatchDistance: number;
+  // How long an unseen hand keeps its identity (ms)
+  maxMissingMs: number;
+  // Number of recent frames in the handedness vote
+  voteWindow: number;
+}
+
+export const DEFAULT_HAND_IDENTITY_OPTIONS: HandIdentityOptions = {
+  maxMatchDistance: 0.25,
+  maxMissingMs: 500,
+  voteWindow: 15,
+};
+
+interface Track {
+  id: number;
+  firstSeen: number;
+  lastSeen: number;
+  palm: Point2D;
+  // Palm velocity (normalized units per ms), used to predict through occlusions
+  velocity: Point2D;
+  votes: { label: Handedness; score: number }[];
+}
+
+export class HandIdentityTracker {
+  private options: HandIdentityOptions;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<HandIdentityOptions> = {}) {
+    this.options = { ...DEFAULT_HAND_IDENTITY_OPTIONS, ...options };
+  }
+
+  /**
+   * Assign identities to this frame's hands
+   * Returns one TrackedHand per entry of detectionResult.landmarks, in order
+   */
+  update(detectionResult: HandLandmarkerResult, timestamp: number): TrackedHand[] {
+    const hands = detectionResult.landmarks ?? [];
+
+    // Forget hands that have been gone too long
+    this.tracks = this.tracks.filter((track) => timestamp - track.lastSeen <= this.options.maxMissingMs);
+
+    const palms = hands.map((landmarks) => palmPosition(landmarks));
+    const cost = palms.map((palm) => this.tracks.map((track) => {
+      const elapsed = timestamp - track.lastSeen;
+      const predicted = {
+        x: track.palm.x + track.velocity.x * elapsed,
+        y: track.palm.y + track.velocity.y * elapsed,
+      };
+      return Math.hypot(palm.x - predicted.x, palm.y - predicted.y);
+    }));
+    const assignment = optimalAssignment(cost, this.options.maxMatchDistance);
+
+    return hands.map((_, i) => {
+      const category = detectionResult.handednesses[i]?.[0];
+      const rawHandedness = category?.categoryName === 'Left' || category?.categoryName === 'Right'
+        ? category.categoryName
+        : null;
+
+      let track = assignment[i] === -1 ? undefined : this.tracks[assignment[i]];
+      if (!track) {
+        track = {
+          id: this.nextId++,
+          firstSeen: timestamp,
+          lastSeen: timestamp,
+          palm: palms[i],
+          velocity: { x: 0, y: 0 },
+          votes: [],
+        };
+        this.tracks.push(track);
+      } else {
+        const elapsed = timestamp - track.lastSeen;
+        if (elapsed > 0) {
+          track.velocity = {
+            x: (palms[i].x - track.palm.x) / elapsed,
+            y: (palms[i].y - track.palm.y) / elapsed,
+          };
+        }
+        track.palm = palms[i];
+        track.lastSeen = timestamp;
+      }
+
+      if (rawHandedness) {
+        track.votes.push({ label: rawHandedness, score: category?.score ?? 1 });
+        if (track.votes.length > this.options.voteWindow) track.votes.shift();
+      }
+
+      return {
+        id: track.id,
+        age: timestamp - track.firstSeen,
+        index: i,
+        handedness: voteHandedness(track.votes) ?? rawHandedness ?? 'Right',
+        rawHandedness,
+      };
+    });
+  }
+
+  reset(): void {
+    this.tracks = [];
+  }
+}
+
+function palmPosition(landmarks: NormalizedLandmark[]): Point2D {
+  const centroid = palmCentroid(landmarks);
+  return { x: centroid.x, y: centroid.y };
+}
+
+function voteHandedness(votes: { label: Handedness; score: number }[]): Handedness | null {
+  if (votes.length === 0) return null;
+  let left = 0;
+  let right = 0;
+  for (const vote of votes) {
+    if (vote.label === 'Left') left += vote.score;
+    else right += vote.score;
+  }
+  return left > right ? 'Left' : 'Right';
+}
+
+/**
+ * Minimum-cost assignment of rows (hands) to columns (tracks)
+ * Exhaustive search, which is exact and cheap for the handful of hands
+ * MediaPipe reports. Pairs costing more than maxCost are left unassigned.
+ * Returns the column for each row, or -1.
+ */
+export function optimalAssignment(cost: number[][], maxCost: number): number[] {
+  const rows = cost.length;
+  const columns = rows > 0 ? cost[0].length : 0;
+
+  let best: number[] = new Array(rows).fill(-1);
+  let bestMatched = 0;
+  let bestCost = 0;
+
+  const current: number[] = new Array(rows).fill(-1);
+  const used = new Array(columns).fill(false);
+
+  const search = (row: number, matched: number, total: number): void => {
+    if (row === rows) {
+      // Prefer more matches, then lower total distance
+      if (matched > bestMatched || (matched === bestMatched && total < bestCost)) {
+        best = [...current];
+        bestMatched = matched;
+        bestCost = total;
+      }
+      return;
+    }
+
+    current[row] = -1;
+    search(row + 1, matched, total);
+
+    for (let column = 0; column < columns; column++) {
+      if (used[column] || cost[row][column] > maxCost) continue;
+      used[column] = true;
+      current[row] = column;
+      search(row + 1, matched + 1, total + cost[row][column]);
+      used[column] = false;
+      current[row] = -1;
+    }
+  };
+
+  search(0, 0, 0);
+  return best;
+}
+
+/**
+ * Copy of the result with each hand's handedness label replaced by its voted label
+ */
+export function applyVotedHandedness(
+  detectionResult: HandLandmarkerResult,
+  hands: TrackedHand[]
+): HandLandmarkerResult {
+  const handednesses = detectionResult.handednesses.map((categories, i) => {
+    const hand = hands[i];
+    if (!hand || categories.length === 0 || categories[0].categoryName === hand.handedness) {
+      return categories;
+    }
+    return [
+      { ...categories[0], categoryName: hand.handedness, displayName: hand.handedness },
+      ...categories.slice(1),
+    ];
+  });
+  return { ...detectionResult, handednesses, handedness: handednesses };
+}
@@ -0,0 +1,116 @@
+/**
+ * Hand landmarker worker
+ * Owns the MediaPipe HandLandmarker so inference never blocks rendering.
+ * Driven by LandmarkerWorkerClient (see there for the message protocol).
+ */
+
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { Delegate, HandTrackerOptions, modelAssetUrl } from './hand-tracker-options';
+import { WorkerRequest, WorkerResponse } from './landmarker-worker-client';
+import { MEDIAPIPE_WASM_URL } from './mediapipe-assets';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+  importScripts: (...urls: string[]) => void;
+  close(): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// MediaPipe loads its WASM glue with importScripts. The build bundles this
+// worker as a classic script, where that works natively; only the dev
+// server, which always serves workers as modules, needs a stand-in.
+if (import.meta.env.DEV) {
+  scope.importScripts = (...urls: string[]) => {
+    for (const url of urls) {
+      const request = new XMLHttpRequest();
+      request.open('GET', url, false);
+      request.send();
+      if (request.status !== 200) {
+        throw new Error(`Failed to load ${url}: ${request.status}`);
+      }
+      (0, eval)(request.responseText);
+    }
+  };
+}
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+let vision: WasmFileset | null = null;
+let landmarker: HandLandmarker | null = null;
+// Bumped on every configure so a slow, superseded build doesn't win
+let buildId = 0;
+
+function createLandmarker(fileset: WasmFileset, options: HandTrackerOptions, delegate: Delegate): Promise<HandLandmarker> {
+  return HandLandmarker.createFromOptions(fileset, {
+    baseOptions: {
+      modelAssetPath: modelAssetUrl(options),
+      delegate,
+    },
+    runningMode: 'VIDEO',
+    numHands: options.numHands,
+    minHandDetectionConfidence: options.minHandDetectionConfidence,
+    minHandPresenceConfidence: options.minHandPresenceConfidence,
+    minTrackingConfidence: options.minTrackingConfidence,
+  });
+}
+
+async function configure(requestId: number, options: HandTrackerOptions): Promise<void> {
+  const build = ++buildId;
+  try {
+    // Self-hosted, pinned to the installed package (see scripts/fetch-mediapipe-assets.mjs)
+    vision ??= await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
+
+    let delegate = options.delegate;
+    let created: HandLandmarker;
+    try {
+      created = await createLandmarker(vision, options, delegate);
+    } catch (error) {
+      if (delegate !== 'GPU') throw error;
+      console.warn('GPU delegate unavailable, falling back to CPU:', error);
+      delegate = 'CPU';
+      created = await createLandmarker(vision, options, delegate);
+    }
+
+    if (build !== buildId) {
+      created.close();
+    } else {
+      // The previous landmarker keeps serving frames until this point
+      landmarker?.close();
+      landmarker = created;
+    }
+    scope.postMessage({ type: 'configured', requestId, delegate });
+  } catch (error) {
+    scope.postMessage({ type: 'configure-failed', requestId, message: (error as Error).message ?? String(error) });
+  }
+}
+
+function detect(frame: ImageBitmap, timestamp: number): void {
+  try {
+    if (!landmarker) throw new Error('Hand landmarker is not configured');
+    const result = landmarker.detectForVideo(frame, timestamp);
+    scope.postMessage({ type: 'result', timestamp, result });
+  } catch (error) {
+    scope.postMessage({ type: 'detect-failed', timestamp, message: (error as Error).message ?? String(error) });
+  } finally {
+    frame.close();
+  }
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'configure':
+      void configure(message.requestId, message.options);
+      break;
+    case 'detect':
+      detect(message.frame, message.timestamp);
+      break;
+    case 'close':
+      landmarker?.close();
+      landmarker = null;
+      scope.close();
+      break;
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * HandLandmarker options
+ * Everything HandTracker passes to MediaPipe, with defaults and a parser for
+ * URL query parameters (?delegate=CPU&numHands=1&minTrackingConfidence=0.7 ...)
+ */
+
+import { ModelVariant, handLandmarkerModelUrl } from './mediapipe-assets';
+
+export type { ModelVariant } from './mediapipe-assets';
+
+export type Delegate = 'GPU' | 'CPU';
+
+export interface HandTrackerOptions {
+  // Preferred delegate; GPU falls back to CPU when it can't be created
+  delegate: Delegate;
+  numHands: number;
+  minHandDetectionConfidence: number;
+  minHandPresenceConfidence: number;
+  minTrackingConfidence: number;
+  // Self-hosted hand landmarker model to run
+  model: ModelVariant;
+  // Custom model file used instead of the variant, null for none
+  modelAssetPath: string | null;
+}
+
+export const DEFAULT_HAND_TRACKER_OPTIONS: HandTrackerOptions = {
+  delegate: 'GPU',
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+  model: 'full',
+  modelAssetPath: null,
+};
+
+export const MAX_HANDS = 4;
+
+export type ConfidenceOption = 'minHandDetectionConfidence' | 'minHandPresenceConfidence' | 'minTrackingConfidence';
+
+export const CONFIDENCE_OPTIONS: ConfidenceOption[] = [
+  'minHandDetectionConfidence',
+  'minHandPresenceConfidence',
+  'minTrackingConfidence',
+];
+
+export const CONFIDENCE_LABELS: Record<ConfidenceOption, string> = {
+  minHandDetectionConfidence: '検出しきい値',
+  minHandPresenceConfidence: '存在しきい値',
+  minTrackingConfidence: '追跡しきい値',
+};
+
+export const MODEL_VARIANT_LABELS: Record<ModelVariant, string> = {
+  full: 'フル',
+};
+
+function isModelVariant(value: string): value is ModelVariant {
+  return Object.prototype.hasOwnProperty.call(MODEL_VARIANT_LABELS, value);
+}
+
+/**
+ * Model file the landmarker loads: the custom path if set, otherwise the variant's self-hosted file
+ */
+export function modelAssetUrl(options: HandTrackerOptions): string {
+  return options.modelAssetPath ?? handLandmarkerModelUrl(options.model);
+}
+
+// Query parameter for the model: a variant name, or any other value as a custom model URL
+const MODEL_PARAM = 'model';
+
+/**
+ * Options set in the query string; malformed values are ignored with a warning
+ */
+export function parseHandTrackerParams(params: URLSearchParams): Partial<HandTrackerOptions> {
+  const options: Partial<HandTrackerOptions> = {};
+  const warn = (name: string, value: string) => console.warn(`Ignoring invalid ${name}="${value}"`);
+
+  const delegate = params.get('delegate');
+  if (delegate !== null) {
+    const upper = delegate.toUpperCase();
+    if (upper === 'GPU' || upper === 'CPU') options.delegate = upper;
+    else warn('delegate', delegate);
+  }
+
+  const numHands = params.get('numHands');
+  if (numHands !== null) {
+    const value = Number(numHands);
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_HANDS) options.numHands = value;
+    else warn('numHands', numHands);
+  }
+
+  for (const name of CONFIDENCE_OPTIONS) {
+    const raw = params.get(name);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (raw.trim() !== '' && value >= 0 && value <= 1) options[name] = value;
+    else warn(name, raw);
+  }
+
+  const model = params.get(MODEL_PARAM);
+  if (model && isModelVariant(model)) options.model = model;
+  else if (model) options.modelAssetPath = model;
+
+  return options;
+}
+
+/**
+ * Write the options that differ from the defaults back into the query string
+ */
+export function writeHandTrackerParams(options: HandTrackerOptions, params: URLSearchParams): void {
+  const set = (name: string, value: string | number, fallback: string | number) => {
+    if (value === fallback) params.delete(name);
+    else params.set(name, String(value));
+  };
+  const defaults = DEFAULT_HAND_TRACKER_OPTIONS;
+  set('delegate', options.delegate, defaults.delegate);
+  set('numHands', options.numHands, defaults.numHands);
+  for (const name of CONFIDENCE_OPTIONS) {
+    set(name, options[name], defaults[name]);
+  }
+  if (options.modelAssetPath !== null) params.set(MODEL_PARAM, options.modelAssetPath);
+  else set(MODEL_PARAM, options.model, defaults.model);
+}
@@ -1,122 +1,283 @@
-import {
-  HandLandmarker,
-  FilesetResolver,
-  HandLandmarkerResult,
-} from '@mediapipe/tasks-vision';
-
-// Hand landmark indices
-export const HAND_LANDMARKS = {
-  WRIST: 0,
-  THUMB_CMC: 1,
-  THUMB_MCP: 2,
-  THUMB_IP: 3,
-  THUMB_TIP: 4,
-  INDEX_FINGER_MCP: 5,
-  INDEX_FINGER_PIP: 6,
-  INDEX_FINGER_DIP: 7,
-  INDEX_FINGER_TIP: 8,
-  MIDDLE_FINGER_MCP: 9,
-  MIDDLE_FINGER_PIP: 10,
-  MIDDLE_FINGER_DIP: 11,
-  MIDDLE_FINGER_TIP: 12,
-  RING_FINGER_MCP: 13,
-  RING_FINGER_PIP: 14,
-  RING_FINGER_DIP: 15,
-  RING_FINGER_TIP: 16,
-  PINKY_MCP: 17,
-  PINKY_PIP: 18,
-  PINKY_DIP: 19,
-  PINKY_TIP: 20,
-} as const;
-
-export interface Point2D {
-  x: number;
-  y: number;
-}
-
-export interface Point3D {
-  x: number;
-  y: number;
-  z: number;
-}
-
-export interface MuryoKushoDetection {
-  detected: boolean;
-  // Center point between index and middle finger tips
-  centerPoint: Point2D | null;
-  // Confidence score (0-1) based on finger proximity
-  confidence: number;
-}
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+
+import { HAND_LANDMARKS, Point2D } from './hand-landmarks';
+import { GestureDetection, GestureRecognizer, recognizeGestures } from './gesture-recognizer';
+import { createBuiltinRecognizers } from './poses';
+import { TwoHandRelations, analyzeTwoHands } from './two-hand-analysis';
+import { LandmarkSmoother, LandmarkSmoothingSettings } from './landmark-smoother';
+import { HandIdentityTracker, TrackedHand, applyVotedHandedness } from './hand-identity';
+import { LandmarkRecorder } from './landmark-recording';
+import { DEFAULT_HAND_TRACKER_OPTIONS, Delegate, HandTrackerOptions } from './hand-tracker-options';
+import { LandmarkerWorkerClient } from './landmarker-worker-client';
+import { InferenceScheduler } from './inference-scheduler';
+import { InputFrame } from './input-source';
+
+export { HAND_LANDMARKS } from './hand-landmarks';
+export type { HandLandmarkName, Point2D, Point3D } from './hand-landmarks';
+export type { GestureDetection, GestureRecognizer } from './gesture-recognizer';
+export type { TrackedHand } from './hand-identity';
+export type { Delegate, HandTrackerOptions } from './hand-tracker-options';
 
 export interface HandTrackingResult {
   rightIndexFingerTip: Point2D | null;
   leftIndexFingerTip: Point2D | null;
+  // Landmarker output, with handedness labels replaced by their voted values
   allHands: HandLandmarkerResult | null;
+  // Persistent identity of each hand in allHands.landmarks, in the same order
+  hands: TrackedHand[];
+  // Filtered copy of allHands (all 21 landmarks per hand), null when landmark smoothing is off
+  smoothedHands: HandLandmarkerResult | null;
+  // True the first time a result is returned, false when detect() repeats the cached one
   isNewFrame: boolean;
-  // 無量空処 pose detection
-  muryoKusho: MuryoKushoDetection;
+  // Timestamp (ms) passed to detect() for the frame these landmarks came from
+  timestamp: number;
+  // Per-recognizer detections, keyed by recognizer name
+  gestures: Record<string, GestureDetection>;
+  // Cross-hand relations, null unless both hands are visible
+  twoHands: TwoHandRelations | null;
 }
 
 export class HandTracker {
-  private handLandmarker: HandLandmarker | null = null;
-  private lastVideoTime = -1;
+  // Inference runs in a worker so a slow frame never stalls rendering
+  private worker: LandmarkerWorkerClient | null = null;
+  private options: HandTrackerOptions;
+  private activeDelegate: Delegate | null = null;
+  // Bumped on every rebuild so a slow, superseded build doesn't win
+  private buildId = 0;
+  private lastFrameId = -1;
+  // Bumped when the input source changes; a frame sent for an older input is dropped on return
+  private inputId = 0;
+  private dispatchedInputId = 0;
+  // A frame is with the worker; the next one waits so frames never queue up
+  private frameInFlight = false;
+  // When the frame in flight was captured (performance.now), for latency measurement
+  private dispatchedAt = 0;
+  private scheduler: InferenceScheduler | null = null;
+  // Processed result that hasn't been returned from detect() yet
+  private pendingResult: HandTrackingResult | null = null;
+  private recognizers = new Map<string, GestureRecognizer>();
+  private landmarkSmoother: LandmarkSmoother | null = null;
+  private identityTracker = new HandIdentityTracker();
+  private recorder: LandmarkRecorder | null = null;
   private lastResult: HandTrackingResult = {
     rightIndexFingerTip: null,
     leftIndexFingerTip: null,
     allHands: null,
+    hands: [],
+    smoothedHands: null,
     isNewFrame: false,
-    muryoKusho: { detected: false, centerPoint: null, confidence: 0 },
+    timestamp: 0,
+    gestures: {},
+    twoHands: null,
   };
 
+  constructor(options: Partial<HandTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_HAND_TRACKER_OPTIONS, ...options };
+
+    // Built-in recognizers
+    for (const recognizer of createBuiltinRecognizers()) {
+      this.registerRecognizer(recognizer);
+    }
+  }
+
+  /**
+   * Register a gesture recognizer (replaces any recognizer with the same name)
+   */
+  registerRecognizer(recognizer: GestureRecognizer): void {
+    this.recognizers.set(recognizer.name, recognizer);
+  }
+
+  unregisterRecognizer(name: string): boolean {
+    return this.recognizers.delete(name);
+  }
+
+  getRecognizers(): GestureRecognizer[] {
+    return Array.from(this.recognizers.values());
+  }
+
+  /**
+   * Enable per-hand filtering of every landmark (null disables it)
+   */
+  setLandmarkSmoothing(settings: LandmarkSmoothingSettings | null): void {
+    if (!settings) {
+      this.landmarkSmoother = null;
+    } else if (this.landmarkSmoother) {
+      this.landmarkSmoother.setSettings(settings);
+    } else {
+      this.landmarkSmoother = new LandmarkSmoother(settings);
+    }
+  }
+
+  /**
+   * Feed every raw landmarker result to a recorder (null stops feeding)
+   */
+  setRecorder(recorder: LandmarkRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Let a scheduler pace detections and pick the input resolution (null detects every new frame at full size)
+   */
+  setScheduler(scheduler: InferenceScheduler | null): void {
+    this.scheduler = scheduler;
+  }
+
   async initialize(): Promise<void> {
-    const vision = await FilesetResolver.forVisionTasks(
-      'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-    );
-
-    this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath:
-          'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
-        delegate: 'GPU',
-      },
-      runningMode: 'VIDEO',
-      numHands: 2,
-      minHandDetectionConfidence: 0.5,
-      minHandPresenceConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
-  }
-
-  detect(video: HTMLVideoElement, timestamp: number): HandTrackingResult {
-    // Return cached result if video frame hasn't changed (prevents flickering)
-    if (!this.handLandmarker || video.currentTime === this.lastVideoTime) {
-      return { ...this.lastResult, isNewFrame: false };
+    this.worker ??= new LandmarkerWorkerClient((rawResult, timestamp) => this.handleFrame(rawResult, timestamp));
+    await this.buildLandmarker();
+  }
+
+  getOptions(): HandTrackerOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Delegate the landmarker actually runs on (null until initialized)
+   */
+  getActiveDelegate(): Delegate | null {
+    return this.activeDelegate;
+  }
+
+  /**
+   * Change landmarker options; an initialized landmarker is rebuilt with them
+   * and keeps serving frames until the new one is ready
+   */
+  async setOptions(options: Partial<HandTrackerOptions>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    if (this.worker) {
+      await this.buildLandmarker();
     }
+  }
 
-    this.lastVideoTime = video.currentTime;
+  private async buildLandmarker(): Promise<void> {
+    const buildId = ++this.buildId;
+    const delegate = await this.worker!.configure(this.options);
+    if (buildId !== this.buildId) return;
 
+    this.activeDelegate = delegate;
+    this.resetTracking();
+  }
+
+  /**
+   * Hand the input's current frame to the worker and return the latest result
+   * Inference finishes asynchronously, so a frame's landmarks arrive on a
+   * later call, flagged isNewFrame exactly once
+   * `timestamp` is normally the frame's own timestamp and must increase between frames
+   */
+  detect(frame: InputFrame | null, timestamp: number): HandTrackingResult {
+    if (
+      this.worker &&
+      this.activeDelegate &&
+      !this.frameInFlight &&
+      frame &&
+      frame.frameId !== this.lastFrameId &&
+      (!this.scheduler || this.scheduler.shouldDetect(timestamp))
+    ) {
+      this.lastFrameId = frame.frameId;
+      this.frameInFlight = true;
+      this.dispatchedInputId = this.inputId;
+      this.dispatchedAt = performance.now();
+      this.scheduler?.markDispatched(timestamp);
+
+      // Landmarks are normalized, so a downscaled frame needs no correction afterwards
+      const scale = this.scheduler?.getInputScale() ?? 1;
+      const capture = scale < 1
+        ? createImageBitmap(frame.image, {
+          resizeWidth: Math.max(1, Math.round(frame.width * scale)),
+          resizeHeight: Math.max(1, Math.round(frame.height * scale)),
+          resizeQuality: 'low',
+        })
+        : createImageBitmap(frame.image);
+
+      const worker = this.worker;
+      capture
+        .then((bitmap) => worker.detect(bitmap, timestamp))
+        .catch((error) => {
+          console.warn('Failed to capture video frame:', error);
+          this.frameInFlight = false;
+        });
+    }
+
+    if (this.pendingResult) {
+      const result = this.pendingResult;
+      this.pendingResult = null;
+      return result;
+    }
+    return this.cachedResult();
+  }
+
+  /**
+   * Start over for a new input source, whose frame IDs may repeat the previous source's
+   */
+  resetInput(): void {
+    this.inputId++;
+    this.lastFrameId = -1;
+    this.pendingResult = null;
+    this.resetTracking();
+  }
+
+  private handleFrame(rawResult: HandLandmarkerResult | null, timestamp: number): void {
+    this.frameInFlight = false;
+    if (!rawResult || this.dispatchedInputId !== this.inputId) return;
+    const now = performance.now();
+    this.scheduler?.recordInference(now - this.dispatchedAt, now);
+    this.recorder?.record(rawResult, timestamp);
+    this.pendingResult = this.processFrame(rawResult, timestamp);
+  }
+
+  /**
+   * Forget hand identities and filter state, e.g. when the input jumps
+   */
+  protected resetTracking(): void {
+    this.identityTracker.reset();
+    this.landmarkSmoother?.reset();
+  }
+
+  /**
+   * Result of the last processed frame, flagged as not new
+   */
+  protected cachedResult(): HandTrackingResult {
+    return { ...this.lastResult, isNewFrame: false };
+  }
+
+  /**
+   * Everything after inference: identities, smoothing, recognizers and fingertips
+   */
+  protected processFrame(rawResult: HandLandmarkerResult, timestamp: number): HandTrackingResult {
     const result: HandTrackingResult = {
       rightIndexFingerTip: null,
       leftIndexFingerTip: null,
       allHands: null,
+      hands: [],
+      smoothedHands: null,
       isNewFrame: true,
-      muryoKusho: { detected: false, centerPoint: null, confidence: 0 },
+      timestamp,
+      gestures: {},
+      twoHands: null,
     };
 
-    const detectionResult = this.handLandmarker.detectForVideo(video, timestamp);
+    // Keep hand identities across frames and correct one-frame handedness flips
+    result.hands = this.identityTracker.update(rawResult, timestamp);
+    const detectionResult = applyVotedHandedness(rawResult, result.hands);
     result.allHands = detectionResult;
 
+    const handIds = result.hands.map((hand) => hand.id);
+    result.smoothedHands = this.landmarkSmoother?.smooth(detectionResult, timestamp, handIds) ?? null;
+
+    // Run every registered recognizer, even with no hands, so each one always reports
+    result.gestures = recognizeGestures(this.recognizers.values(), detectionResult, result.smoothedHands, handIds);
+    result.twoHands = analyzeTwoHands(result.smoothedHands ?? detectionResult);
+
     if (!detectionResult.landmarks || detectionResult.landmarks.length === 0) {
       this.lastResult = result;
       return result;
     }
 
-    // Process each detected hand
-    for (let i = 0; i < detectionResult.landmarks.length; i++) {
-      const landmarks = detectionResult.landmarks[i];
-      const handedness = detectionResult.handednesses[i];
-
-      if (!landmarks || !handedness || handedness.length === 0) continue;
+    // Process each detected hand, longest-tracked first so it keeps the anchor if labels collide
+    const handsByAge = [...result.hands].sort((a, b) => b.age - a.age);
+    for (const hand of handsByAge) {
+      const landmarks = detectionResult.landmarks[hand.index];
+      if (!landmarks) continue;
 
       // Get index finger tip position (normalized 0-1)
       const indexFingerTip = landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP];
@@ -128,109 +289,28 @@ export class HandTracker {
       // MediaPipe labels hands by anatomical handedness (your actual left/right hand)
       // "Right" = user's anatomical right hand (appears on left side of mirrored screen)
       // "Left" = user's anatomical left hand (appears on right side of mirrored screen)
-      const handLabel = handedness[0].categoryName;
-
-      // Debug logging
-      console.log(`Hand detected: MediaPipe label="${handLabel}" (user's ${handLabel.toLowerCase()} hand), fingerPos=(${point.x.toFixed(3)}, ${point.y.toFixed(3)})`);
+      const handLabel = hand.handedness;
 
-      if (handLabel === 'Right') {
+      if (handLabel === 'Right' && !result.rightIndexFingerTip) {
         // User's anatomical RIGHT hand
         result.rightIndexFingerTip = point;
-      } else if (handLabel === 'Left') {
+      } else if (handLabel === 'Left' && !result.leftIndexFingerTip) {
         // User's anatomical LEFT hand
         result.leftIndexFingerTip = point;
       }
     }
 
-    // Detect 無量空処 pose (index and middle finger tips touching)
-    result.muryoKusho = this.detectMuryoKusho(detectionResult);
-
     this.lastResult = result;
     return result;
   }
 
-  /**
-   * Detect the 無量空処 (Muryō Kūsho / Unlimited Void) pose
-   * This is the 帝釈天印 (Taishakuten-in) mudra where index and middle finger tips touch
-   */
-  private detectMuryoKusho(detectionResult: HandLandmarkerResult): MuryoKushoDetection {
-    const noDetection: MuryoKushoDetection = {
-      detected: false,
-      centerPoint: null,
-      confidence: 0,
-    };
-
-    if (!detectionResult.landmarks || detectionResult.landmarks.length === 0) {
-      return noDetection;
-    }
-
-    // Check each detected hand for the pose
-    for (let i = 0; i < detectionResult.landmarks.length; i++) {
-      const landmarks = detectionResult.landmarks[i];
-      if (!landmarks || landmarks.length < 21) continue;
-
-      const indexTip = landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP];
-      const middleTip = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_TIP];
-      const indexPip = landmarks[HAND_LANDMARKS.INDEX_FINGER_PIP];
-      const middlePip = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_PIP];
-      const wrist = landmarks[HAND_LANDMARKS.WRIST];
-
-      // Calculate distance between index and middle finger tips (normalized)
-      const tipDistance = Math.sqrt(
-        Math.pow(indexTip.x - middleTip.x, 2) +
-        Math.pow(indexTip.y - middleTip.y, 2) +
-        Math.pow(indexTip.z - middleTip.z, 2)
-      );
-
-      // Calculate hand size reference (wrist to middle finger tip distance)
-      const handSize = Math.sqrt(
-        Math.pow(wrist.x - middleTip.x, 2) +
-        Math.pow(wrist.y - middleTip.y, 2)
-      );
-
-      // Normalize tip distance by hand size
-      const normalizedTipDistance = tipDistance / handSize;
-
-      // Check if fingers are extended (tips should be above PIPs in screen space, i.e., lower y value)
-      // For this pose, we want fingers pointing up, so tip.y < pip.y in normalized coords
-      const indexExtended = indexTip.y < indexPip.y;
-      const middleExtended = middleTip.y < middlePip.y;
-
-      // Threshold for detection (tips should be very close - within ~15% of hand size)
-      const TOUCH_THRESHOLD = 0.15;
-      const tipsClose = normalizedTipDistance < TOUCH_THRESHOLD;
-
-      // Calculate confidence based on how close the tips are
-      const confidence = Math.max(0, 1 - (normalizedTipDistance / TOUCH_THRESHOLD));
-
-      // Debug logging
-      if (normalizedTipDistance < 0.3) {
-        console.log(`[MuryoKusho] tipDist=${normalizedTipDistance.toFixed(3)}, ` +
-          `indexExt=${indexExtended}, middleExt=${middleExtended}, conf=${confidence.toFixed(2)}`);
-      }
-
-      // Pose detected if tips are close and both fingers are extended
-      if (tipsClose && indexExtended && middleExtended) {
-        const centerPoint: Point2D = {
-          x: (indexTip.x + middleTip.x) / 2,
-          y: (indexTip.y + middleTip.y) / 2,
-        };
-
-        return {
-          detected: true,
-          centerPoint,
-          confidence,
-        };
-      }
-    }
-
-    return noDetection;
-  }
-
   destroy(): void {
-    if (this.handLandmarker) {
-      this.handLandmarker.close();
-      this.handLandmarker = null;
-    }
+    // Let any build still in flight discard its result
+    this.buildId++;
+    this.worker?.terminate();
+    this.worker = null;
+    this.activeDelegate = null;
+    this.frameInFlight = false;
+    this.pendingResult = null;
   }
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { INFERENCE_LEVELS, InferenceScheduler } from './inference-scheduler';
+
+// Averages follow every sample directly so each test controls the measured load
+const options = { inferenceBudget: 50, renderBudget: 10, headroom: 0.6, smoothing: 1, settleTime: 1000 };
+
+describe('InferenceScheduler', () => {
+  it('steps down one level per settle time while inference is over budget', () => {
+    const scheduler = new InferenceScheduler(options);
+    const levels = [1000, 1500, 2000, 3000].map((now) => {
+      scheduler.recordInference(80, now);
+      return scheduler.getMetrics().level;
+    });
+    expect(levels).toEqual([1, 1, 2, 3]);
+    expect(scheduler.getInputScale()).toBe(INFERENCE_LEVELS[3].inputScale);
+  });
+
+  it('counts slow main-thread frames as overload too', () => {
+    const scheduler = new InferenceScheduler(options);
+    scheduler.recordRender(15, 1000);
+    expect(scheduler.getMetrics().level).toBe(1);
+  });
+
+  it('stops at the lightest level', () => {
+    const scheduler = new InferenceScheduler(options);
+    for (let now = 1000; now <= 20000; now += 1000) {
+      scheduler.recordInference(500, now);
+    }
+    expect(scheduler.getMetrics().level).toBe(INFERENCE_LEVELS.length - 1);
+  });
+
+  it('steps back up only with headroom below both budgets', () => {
+    const scheduler = new InferenceScheduler(options);
+    scheduler.recordInference(80, 1000);
+    scheduler.recordInference(80, 2000);
+    expect(scheduler.getMetrics().level).toBe(2);
+
+    // Within budget but above the headroom: stay
+    scheduler.recordRender(5, 2500);
+    scheduler.recordInference(40, 3000);
+    expect(scheduler.getMetrics().level).toBe(2);
+
+    scheduler.recordInference(20, 4000);
+    expect(scheduler.getMetrics().level).toBe(1);
+    scheduler.recordInference(20, 5000);
+    expect(scheduler.getMetrics().level).toBe(0);
+  });
+
+  it('holds detections back by the level minimum interval', () => {
+    const scheduler = new InferenceScheduler(options);
+    for (let now = 1000; now <= 3000; now += 1000) {
+      scheduler.recordInference(80, now);
+    }
+    expect(scheduler.getMetrics().minInterval).toBe(50);
+
+    scheduler.markDispatched(3000);
+    expect(scheduler.shouldDetect(3030)).toBe(false);
+    expect(scheduler.shouldDetect(3050)).toBe(true);
+  });
+
+  it('measures the detection rate from completed detections', () => {
+    const scheduler = new InferenceScheduler(options);
+    expect(scheduler.getMetrics().detectionRate).toBe(0);
+    scheduler.recordInference(20, 0);
+    scheduler.recordInference(20, 40);
+    expect(scheduler.getMetrics().detectionRate).toBe(25);
+  });
+
+  it('starts over at full quality after a reset', () => {
+    const scheduler = new InferenceScheduler(options);
+    scheduler.recordInference(80, 1000);
+    scheduler.markDispatched(1000);
+    scheduler.reset();
+
+    expect(scheduler.getMetrics()).toMatchObject({ level: 0, inferenceMs: 0, renderMs: 0, detectionRate: 0 });
+    expect(scheduler.shouldDetect(1000)).toBe(true);
+  });
+});
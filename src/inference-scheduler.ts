@@ -0,0 +1,150 @@
+/**
+ * Adaptive inference scheduler
+ * Measures inference latency and render time, and trades detection quality
+ * for frame rate under load: first by feeding the landmarker smaller frames,
+ * then by detecting less often. Steps back up once there is headroom again.
+ */
+
+export interface InferenceLevel {
+  // Fraction of the video resolution sent to the landmarker
+  inputScale: number;
+  // Minimum time between two detections (ms, 0 = every new video frame)
+  minInterval: number;
+}
+
+// Ordered from best quality to lightest load
+export const INFERENCE_LEVELS: InferenceLevel[] = [
+  { inputScale: 1, minInterval: 0 },
+  { inputScale: 0.75, minInterval: 0 },
+  { inputScale: 0.5, minInterval: 0 },
+  { inputScale: 0.5, minInterval: 50 },
+  { inputScale: 0.5, minInterval: 100 },
+  { inputScale: 0.4, minInterval: 200 },
+];
+
+export interface InferenceSchedulerOptions {
+  // Inference slower than this counts as overload (ms, frame capture to result)
+  inferenceBudget: number;
+  // Main-thread work per rendered frame above this counts as overload (ms)
+  renderBudget: number;
+  // Below this fraction of both budgets there is headroom to step back up
+  headroom: number;
+  // Smoothing of the latency averages (0-1, higher follows new samples faster)
+  smoothing: number;
+  // Minimum time between level changes, so each change can show its effect (ms)
+  settleTime: number;
+}
+
+export const DEFAULT_INFERENCE_SCHEDULER_OPTIONS: InferenceSchedulerOptions = {
+  inferenceBudget: 50,
+  renderBudget: 10,
+  headroom: 0.6,
+  smoothing: 0.1,
+  settleTime: 1000,
+};
+
+export interface InferenceMetrics {
+  // Averaged inference latency (ms)
+  inferenceMs: number;
+  // Averaged main-thread render time (ms)
+  renderMs: number;
+  // Measured detections per second
+  detectionRate: number;
+  // Index into INFERENCE_LEVELS
+  level: number;
+  inputScale: number;
+  minInterval: number;
+}
+
+export class InferenceScheduler {
+  private options: InferenceSchedulerOptions;
+  private level = 0;
+  private inferenceMs = 0;
+  private renderMs = 0;
+  // Averaged time between completed detections (ms)
+  private detectionInterval = 0;
+  private lastDispatch = -Infinity;
+  private lastResult: number | null = null;
+  private lastLevelChange = 0;
+
+  constructor(options: Partial<InferenceSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_INFERENCE_SCHEDULER_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether a new frame may be sent for inference at this time (ms)
+   */
+  shouldDetect(now: number): boolean {
+    return now - this.lastDispatch >= INFERENCE_LEVELS[this.level].minInterval;
+  }
+
+  markDispatched(now: number): void {
+    this.lastDispatch = now;
+  }
+
+  getInputScale(): number {
+    return INFERENCE_LEVELS[this.level].inputScale;
+  }
+
+  /**
+   * Report a completed detection: latency from frame capture to result (ms)
+   */
+  recordInference(latency: number, now: number): void {
+    this.inferenceMs = this.average(this.inferenceMs, latency);
+    if (this.lastResult !== null) {
+      this.detectionInterval = this.average(this.detectionInterval, now - this.lastResult);
+    }
+    this.lastResult = now;
+    this.adapt(now);
+  }
+
+  /**
+   * Report how long one render-loop iteration took on the main thread (ms)
+   */
+  recordRender(duration: number, now: number): void {
+    this.renderMs = this.average(this.renderMs, duration);
+    this.adapt(now);
+  }
+
+  getMetrics(): InferenceMetrics {
+    const { inputScale, minInterval } = INFERENCE_LEVELS[this.level];
+    return {
+      inferenceMs: this.inferenceMs,
+      renderMs: this.renderMs,
+      detectionRate: this.detectionInterval > 0 ? 1000 / this.detectionInterval : 0,
+      level: this.level,
+      inputScale,
+      minInterval,
+    };
+  }
+
+  reset(): void {
+    this.level = 0;
+    this.inferenceMs = 0;
+    this.renderMs = 0;
+    this.detectionInterval = 0;
+    this.lastDispatch = -Infinity;
+    this.lastResult = null;
+    this.lastLevelChange = 0;
+  }
+
+  private average(current: number, sample: number): number {
+    return current === 0 ? sample : current + (sample - current) * this.options.smoothing;
+  }
+
+  private adapt(now: number): void {
+    if (now - this.lastLevelChange < this.options.settleTime) return;
+
+    const { inferenceBudget, renderBudget, headroom } = this.options;
+    const overloaded = this.inferenceMs > inferenceBudget || this.renderMs > renderBudget;
+    const relaxed = this.inferenceMs < inferenceBudget * headroom && this.renderMs < renderBudget * headroom;
+
+    if (overloaded && this.level < INFERENCE_LEVELS.length - 1) {
+      this.level++;
+      this.lastLevelChange = now;
+    } else if (relaxed && this.level > 0) {
+      this.level--;
+      this.lastLevelChange = now;
+    }
+  }
+}
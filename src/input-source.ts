@@ -0,0 +1,270 @@
+/**
+ * Input sources
+ * Where frames come from: the live camera (CameraManager), a local video
+ * file, or a folder of images played as a sequence. Every source hands out
+ * frames with strictly increasing timestamps, as detectForVideo requires.
+ */
+
+export type InputSourceKind = 'camera' | 'video' | 'images';
+
+export interface InputFrame {
+  // Drawable and capturable with createImageBitmap
+  image: HTMLVideoElement | ImageBitmap;
+  width: number;
+  height: number;
+  // Changes whenever the image shows a new frame
+  frameId: number;
+  // Time of this frame (ms), increasing across loops and source switches
+  timestamp: number;
+}
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  // Whether the image is shown flipped horizontally, like a mirror
+  isMirrored(): boolean;
+  // Frame to show and detect at this time, null until the first one is ready
+  getFrame(now: number): InputFrame | null;
+  stop(): void;
+}
+
+// Step used when a frame would otherwise not be later than the previous one (ms)
+const MIN_FRAME_STEP = 1;
+
+// Shared by all sources so switching between them never goes back in time
+let lastFrameTimestamp = -Infinity;
+
+/**
+ * Timestamp for a new frame: the candidate, or just after the previous frame of any source
+ */
+export function nextFrameTimestamp(candidate: number): number {
+  lastFrameTimestamp = Math.max(candidate, lastFrameTimestamp + MIN_FRAME_STEP);
+  return lastFrameTimestamp;
+}
+
+export function hasVideoFrame(video: HTMLVideoElement): boolean {
+  return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+}
+
+export interface VideoFileSourceOptions {
+  // Show the clip flipped horizontally, like the front camera
+  mirrored: boolean;
+  loop: boolean;
+}
+
+export const DEFAULT_VIDEO_FILE_SOURCE_OPTIONS: VideoFileSourceOptions = {
+  mirrored: true,
+  loop: true,
+};
+
+/**
+ * Local video file, played muted in real time
+ * Timestamps follow the clip's media time, carried on across loops
+ */
+export class VideoFileSource implements InputSource {
+  readonly kind = 'video';
+  readonly name: string;
+  private options: VideoFileSourceOptions;
+  private video: HTMLVideoElement;
+  private url: string;
+  private origin: number;
+  // Added to the media time after every loop so time keeps going forward
+  private loopOffset = 0;
+  private lastMediaTime = -1;
+  // Counts shown frames; the media time alone repeats across loops
+  private frameCount = 0;
+  private frame: InputFrame | null = null;
+
+  constructor(file: File, options: Partial<VideoFileSourceOptions> = {}) {
+    this.name = file.name;
+    this.options = { ...DEFAULT_VIDEO_FILE_SOURCE_OPTIONS, ...options };
+    this.url = URL.createObjectURL(file);
+    this.origin = performance.now();
+
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.loop = this.options.loop;
+    this.video.src = this.url;
+  }
+
+  /**
+   * Resolves once the first frame can be shown; on failure the source is stopped
+   */
+  async start(): Promise<void> {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.video.onloadeddata = () => resolve();
+        this.video.onerror = () => reject(new Error(this.video.error?.message || `Cannot play ${this.name}`));
+      });
+      await this.video.play();
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  isMirrored(): boolean {
+    return this.options.mirrored;
+  }
+
+  getFrame(): InputFrame | null {
+    if (!hasVideoFrame(this.video)) return null;
+
+    const mediaTime = this.video.currentTime * 1000;
+    if (mediaTime !== this.lastMediaTime) {
+      if (mediaTime < this.lastMediaTime) {
+        this.loopOffset += this.lastMediaTime - mediaTime;
+      }
+      this.lastMediaTime = mediaTime;
+      this.frame = {
+        image: this.video,
+        width: this.video.videoWidth,
+        height: this.video.videoHeight,
+        frameId: ++this.frameCount,
+        timestamp: nextFrameTimestamp(this.origin + this.loopOffset + mediaTime),
+      };
+    }
+    return this.frame;
+  }
+
+  stop(): void {
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+    URL.revokeObjectURL(this.url);
+  }
+}
+
+export interface ImageSequenceSourceOptions {
+  // Playback rate (frames per second)
+  fps: number;
+  mirrored: boolean;
+  loop: boolean;
+}
+
+export const DEFAULT_IMAGE_SEQUENCE_SOURCE_OPTIONS: ImageSequenceSourceOptions = {
+  fps: 30,
+  mirrored: true,
+  loop: true,
+};
+
+/**
+ * Image files played in file-name order at a fixed frame rate
+ * Frames are decoded one at a time; a slow decode skips ahead like a live camera would
+ */
+export class ImageSequenceSource implements InputSource {
+  readonly kind = 'images';
+  private files: File[];
+  private options: ImageSequenceSourceOptions;
+  private origin: number;
+  private startedAt: number | null = null;
+  private current: { frameNumber: number; bitmap: ImageBitmap; timestamp: number } | null = null;
+  private loading = false;
+  private stopped = false;
+
+  constructor(files: File[], options: Partial<ImageSequenceSourceOptions> = {}) {
+    this.files = sortImageFiles(files);
+    if (this.files.length === 0) {
+      throw new Error('No image files to play');
+    }
+    this.options = { ...DEFAULT_IMAGE_SEQUENCE_SOURCE_OPTIONS, ...options };
+    this.origin = performance.now();
+  }
+
+  get frameCount(): number {
+    return this.files.length;
+  }
+
+  isMirrored(): boolean {
+    return this.options.mirrored;
+  }
+
+  getFrame(now: number): InputFrame | null {
+    if (this.startedAt === null) this.startedAt = now;
+
+    let due = Math.floor(((now - this.startedAt) * this.options.fps) / 1000);
+    if (!this.options.loop) due = Math.min(due, this.files.length - 1);
+    if (!this.loading && due > (this.current?.frameNumber ?? -1)) {
+      void this.load(due);
+    }
+
+    if (!this.current) return null;
+    const { bitmap, frameNumber, timestamp } = this.current;
+    return { image: bitmap, width: bitmap.width, height: bitmap.height, frameId: frameNumber, timestamp };
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.current?.bitmap.close();
+    this.current = null;
+  }
+
+  private async load(frameNumber: number): Promise<void> {
+    this.loading = true;
+    const file = this.files[frameNumber % this.files.length];
+    try {
+      const bitmap = await createImageBitmap(file);
+      if (this.stopped) {
+        bitmap.close();
+        return;
+      }
+      this.current?.bitmap.close();
+      this.current = {
+        frameNumber,
+        bitmap,
+        timestamp: nextFrameTimestamp(this.origin + (frameNumber * 1000) / this.options.fps),
+      };
+    } catch (error) {
+      console.warn(`Failed to decode ${file.name}:`, error);
+    } finally {
+      this.loading = false;
+    }
+  }
+}
+
+/**
+ * Image files only, ordered by path with numbers compared by value (frame2 before frame10)
+ */
+export function sortImageFiles(files: File[]): File[] {
+  const path = (file: File) => file.webkitRelativePath || file.name;
+  return files
+    .filter((file) => file.type.startsWith('image/'))
+    .sort((a, b) => path(a).localeCompare(path(b), undefined, { numeric: true }));
+}
+
+/**
+ * Files dropped on the page, with dropped folders read recursively
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken before the drop handler yields
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...(await readEntry(entry)));
+  }
+  return files;
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // The listing comes in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+  return files;
+}
@@ -0,0 +1,164 @@
+/**
+ * Landmark recording
+ * Serializes each frame's raw HandLandmarkerResult with its timestamp to
+ * NDJSON (one header line, then one line per frame), so sessions can be
+ * replayed without a camera or the model
+ */
+
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { downloadBlob } from './download';
+
+export interface RecordedFrame {
+  // ms since the first recorded frame
+  timestamp: number;
+  result: HandLandmarkerResult;
+}
+
+export interface LandmarkRecording {
+  recordedAt: string;
+  frames: RecordedFrame[];
+}
+
+const FORMAT = 'finger-camera-landmarks';
+const VERSION = 1;
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTimestamp: number | null = null;
+  private recordedAt = '';
+  private recording = false;
+
+  start(): void {
+    this.frames = [];
+    this.startTimestamp = null;
+    this.recordedAt = new Date().toISOString();
+    this.recording = true;
+  }
+
+  /**
+   * Returns what was captured since start()
+   */
+  stop(): LandmarkRecording {
+    this.recording = false;
+    return { recordedAt: this.recordedAt, frames: this.frames };
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Capture one landmarker result; timestamp in ms on any monotonic clock
+   */
+  record(result: HandLandmarkerResult, timestamp: number): void {
+    if (!this.recording) return;
+    if (this.startTimestamp === null) this.startTimestamp = timestamp;
+    this.frames.push({ timestamp: timestamp - this.startTimestamp, result: copyResult(result) });
+  }
+}
+
+function copyResult(result: HandLandmarkerResult): HandLandmarkerResult {
+  const handedness = result.handedness ?? result.handednesses ?? [];
+  return {
+    landmarks: result.landmarks ?? [],
+    worldLandmarks: result.worldLandmarks ?? [],
+    handedness,
+    handednesses: handedness,
+  };
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+  const header = JSON.stringify({ format: FORMAT, version: VERSION, recordedAt: recording.recordedAt });
+  const lines = recording.frames.map((frame) =>
+    JSON.stringify({
+      timestamp: frame.timestamp,
+      landmarks: frame.result.landmarks,
+      worldLandmarks: frame.result.worldLandmarks,
+      handedness: frame.result.handedness,
+    })
+  );
+  return [header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Parse an NDJSON recording, or the same content as a single JSON document
+ * ({ recordedAt, frames } or a bare array of frames)
+ * Throws with a message naming the offending line
+ */
+export function parseRecording(text: string): LandmarkRecording {
+  const document = tryParseJson(text);
+  if (Array.isArray(document)) {
+    return { recordedAt: '', frames: document.map((frame, i) => parseFrame(frame, `frame ${i}`)) };
+  }
+  if (isObject(document) && Array.isArray(document.frames)) {
+    return {
+      recordedAt: typeof document.recordedAt === 'string' ? document.recordedAt : '',
+      frames: document.frames.map((frame, i) => parseFrame(frame, `frame ${i}`)),
+    };
+  }
+
+  let recordedAt = '';
+  const frames: RecordedFrame[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (line.trim() === '') return;
+    const value = tryParseJson(line);
+    if (value === undefined) throw new Error(`Invalid landmark recording: line ${i + 1} is not JSON`);
+
+    if (isObject(value) && value.format !== undefined) {
+      if (value.format !== FORMAT) throw new Error(`Invalid landmark recording: unknown format "${value.format}"`);
+      if (value.version !== VERSION) throw new Error(`Invalid landmark recording: unsupported version ${value.version}`);
+      recordedAt = typeof value.recordedAt === 'string' ? value.recordedAt : '';
+      return;
+    }
+    frames.push(parseFrame(value, `line ${i + 1}`));
+  });
+
+  return { recordedAt, frames };
+}
+
+function parseFrame(value: unknown, where: string): RecordedFrame {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid landmark recording: ${where} ${message}`);
+  };
+  if (!isObject(value)) return fail('must be an object');
+  if (typeof value.timestamp !== 'number') return fail('needs a numeric "timestamp"');
+  if (!Array.isArray(value.landmarks)) return fail('needs a "landmarks" array');
+
+  const handedness = (value.handedness ?? value.handednesses ?? []) as HandLandmarkerResult['handedness'];
+  if (!Array.isArray(handedness) || handedness.length !== value.landmarks.length) {
+    return fail('needs one "handedness" entry per hand');
+  }
+
+  return {
+    timestamp: value.timestamp,
+    result: {
+      landmarks: value.landmarks as HandLandmarkerResult['landmarks'],
+      worldLandmarks: (Array.isArray(value.worldLandmarks) ? value.worldLandmarks : []) as HandLandmarkerResult['worldLandmarks'],
+      handedness,
+      handednesses: handedness,
+    },
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Save a recording through the browser's download prompt
+ */
+export function downloadRecording(recording: LandmarkRecording, filename = 'landmarks.ndjson'): void {
+  downloadBlob(new Blob([serializeRecording(recording)], { type: 'application/x-ndjson' }), filename);
+}
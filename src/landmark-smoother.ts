@@ -0,0 +1,81 @@
+/**
+ * Landmark smoother
+ * Filters all 21 landmarks (x, y, z) of every hand, keeping one filter set
+ * per hand identity across frames
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS } from './hand-landmarks';
+import { PointFilter, PointFilterType, createPointFilter } from './point-filter';
+
+export interface LandmarkSmoothingSettings {
+  type: PointFilterType;
+  // 0-1, higher follows the raw landmarks more closely
+  smoothing: number;
+}
+
+interface HandFilters {
+  filters: PointFilter[];
+  lastSeen: number;
+}
+
+// Filters of an unseen hand are kept this long so a short occlusion doesn't reset them (ms)
+const RETAIN_MS = 500;
+
+export class LandmarkSmoother {
+  private settings: LandmarkSmoothingSettings;
+  // One filter per landmark, keyed by hand ID
+  private tracks = new Map<number, HandFilters>();
+
+  constructor(settings: LandmarkSmoothingSettings) {
+    this.settings = { ...settings };
+  }
+
+  setSettings(settings: LandmarkSmoothingSettings): void {
+    if (settings.type !== this.settings.type) {
+      this.tracks.clear();
+    } else {
+      for (const track of this.tracks.values()) {
+        for (const filter of track.filters) filter.setSmoothing(settings.smoothing);
+      }
+    }
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Returns a copy of the result with every hand's landmarks filtered
+   * handIds gives the persistent ID of each hand in detectionResult.landmarks
+   */
+  smooth(detectionResult: HandLandmarkerResult, timestamp: number, handIds: number[]): HandLandmarkerResult {
+    const hands = detectionResult.landmarks ?? [];
+
+    const landmarks = hands.map((hand, i) => {
+      let track = this.tracks.get(handIds[i]);
+      if (!track) {
+        track = { filters: this.createFilters(), lastSeen: timestamp };
+        this.tracks.set(handIds[i], track);
+      }
+      track.lastSeen = timestamp;
+
+      const filters = track.filters;
+      return hand.map((landmark, j): NormalizedLandmark => filters[j].filter(landmark, timestamp));
+    });
+
+    // Hands gone for longer than a brief occlusion lose their filter state
+    for (const [id, track] of this.tracks) {
+      if (timestamp - track.lastSeen > RETAIN_MS) this.tracks.delete(id);
+    }
+
+    return { ...detectionResult, landmarks };
+  }
+
+  reset(): void {
+    this.tracks.clear();
+  }
+
+  private createFilters(): PointFilter[] {
+    return Object.values(HAND_LANDMARKS).map(() =>
+      createPointFilter(this.settings.type, this.settings.smoothing)
+    );
+  }
+}
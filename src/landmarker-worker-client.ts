@@ -0,0 +1,97 @@
+/**
+ * Main-thread side of the hand landmarker worker
+ * Frames go over as transferred ImageBitmaps; results come back as messages
+ */
+
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Delegate, HandTrackerOptions } from './hand-tracker-options';
+// Built as a classic worker so MediaPipe's importScripts works (see vite.config.ts)
+import HandLandmarkerWorker from './hand-landmarker.worker.ts?worker';
+
+export type WorkerRequest =
+  | { type: 'configure'; requestId: number; options: HandTrackerOptions }
+  | { type: 'detect'; frame: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+export type WorkerResponse =
+  | { type: 'configured'; requestId: number; delegate: Delegate }
+  | { type: 'configure-failed'; requestId: number; message: string }
+  | { type: 'result'; timestamp: number; result: HandLandmarkerResult }
+  | { type: 'detect-failed'; timestamp: number; message: string };
+
+// Called once per frame sent to detect(), with null when inference failed
+export type FrameCallback = (result: HandLandmarkerResult | null, timestamp: number) => void;
+
+export class LandmarkerWorkerClient {
+  private worker: Worker;
+  private nextRequestId = 1;
+  private pending = new Map<number, { resolve: (delegate: Delegate) => void; reject: (error: Error) => void }>();
+  private onFrame: FrameCallback;
+
+  constructor(onFrame: FrameCallback) {
+    this.onFrame = onFrame;
+    this.worker = new HandLandmarkerWorker();
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      console.error('Hand landmarker worker error:', event.message);
+      this.rejectPending(new Error(event.message || 'Hand landmarker worker error'));
+      // Release the caller waiting on a frame that will never come back
+      this.onFrame(null, performance.now());
+    };
+  }
+
+  /**
+   * (Re)build the landmarker in the worker; resolves with the delegate it ended up on
+   */
+  configure(options: HandTrackerOptions): Promise<Delegate> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: 'configure', requestId, options });
+    });
+  }
+
+  /**
+   * Send a frame for inference; the bitmap is transferred and must not be used afterwards
+   */
+  detect(frame: ImageBitmap, timestamp: number): void {
+    this.worker.postMessage({ type: 'detect', frame, timestamp } satisfies WorkerRequest, [frame]);
+  }
+
+  terminate(): void {
+    this.post({ type: 'close' });
+    this.worker.terminate();
+    this.rejectPending(new Error('Hand landmarker worker terminated'));
+  }
+
+  private rejectPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private post(message: WorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    switch (message.type) {
+      case 'configured':
+        this.pending.get(message.requestId)?.resolve(message.delegate);
+        this.pending.delete(message.requestId);
+        break;
+      case 'configure-failed':
+        this.pending.get(message.requestId)?.reject(new Error(message.message));
+        this.pending.delete(message.requestId);
+        break;
+      case 'result':
+        this.onFrame(message.result, message.timestamp);
+        break;
+      case 'detect-failed':
+        console.warn('Hand detection failed:', message.message);
+        this.onFrame(null, message.timestamp);
+        break;
+    }
+  }
+}
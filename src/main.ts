@@ -1,19 +1,108 @@
 import './style.css';
-import { HandTracker, Point2D, HAND_LANDMARKS } from './hand-tracker';
+import { HandTracker, HandTrackingResult, HandLandmarkName, Point2D, TrackedHand, HAND_LANDMARKS } from './hand-tracker';
 import { DomainExpansionEffect } from './domain-expansion-effect';
+import { DomainTheme } from './domain-theme';
+import { DEFAULT_THEME, themeForGesture } from './themes';
+import { GestureDetection, LandmarkInput, noDetection } from './gesture-recognizer';
+import { BUILTIN_SEQUENCES, GASSHO, MURYO_KUSHO, PEACE_SIGN } from './poses';
+import { GestureSequenceRecognizer } from './gesture-sequence';
+import { TwoHandRelations, palmCentroid } from './two-hand-analysis';
+import { ChargeOptions, ChargeTracker } from './charge-tracker';
+import { PointFilter, PointFilterType, createPointFilter } from './point-filter';
+import {
+  AnchorHand,
+  AnchorSpec,
+  AnchorType,
+  HAND_LABELS,
+  LANDMARK_LABELS,
+  describeAnchor,
+  findAnchorHand,
+  loadAnchor,
+  resolveAnchor,
+  saveAnchor,
+} from './camera-anchor';
+import { IDENTITY_VIEW_TRANSFORM, ViewTransformController } from './view-transform';
+import { EDGE_MODE_LABELS, EdgeMode, VideoFramer } from './video-framing';
+import { LandmarkRecorder, LandmarkRecording, downloadRecording, parseRecording } from './landmark-recording';
+import { ReplayHandTracker } from './replay-hand-tracker';
+import { InferenceMetrics, InferenceScheduler } from './inference-scheduler';
+import {
+  CameraDevice,
+  CameraManager,
+  RESOLUTION_PRESETS,
+  ResolutionPreset,
+  loadCameraSelection,
+  saveCameraSelection,
+} from './camera-manager';
+import { ViewCompositor } from './view-compositor';
+import { ViewRecorder, captureElementAudio } from './view-recorder';
+import { downloadBlob } from './download';
+import { SnapshotTrigger, SnapshotTriggerOptions } from './snapshot-trigger';
+import { Snapshot, SnapshotGallery, canvasToBlob } from './snapshot-gallery';
+import { ImageSequenceSource, InputFrame, InputSource, VideoFileSource, readDroppedFiles } from './input-source';
+import {
+  CONFIDENCE_LABELS,
+  CONFIDENCE_OPTIONS,
+  DEFAULT_HAND_TRACKER_OPTIONS,
+  HandTrackerOptions,
+  MAX_HANDS,
+  MODEL_VARIANT_LABELS,
+  ModelVariant,
+  parseHandTrackerParams,
+  writeHandTrackerParams,
+} from './hand-tracker-options';
 
 // Configuration
 const CONFIG = {
-  // Smoothing factor for finger position (0-1, higher = more smoothing)
+  // Point kept at the center of the view (persisted in localStorage)
+  anchor: loadAnchor(),
+  // Smoothing factor for finger position (0-1, higher = follows the finger more closely)
   smoothingFactor: 0.5,
+  // Filter used to smooth the finger position
+  filterType: 'exponential' as PointFilterType,
+  // Smooth all 21 landmarks of every hand (pose detection and overlay)
+  landmarkSmoothing: true,
+  // Landmarks drawn by the debug overlay
+  debugLandmarkInput: 'smoothed' as LandmarkInput,
   // Whether to show debug overlay
   showDebug: false,
-  // Required hold duration for 無量空処 pose (ms)
-  muryoKushoHoldDuration: 3000,
+  // Pinch distance zooms and hand roll rotates the view around the anchor
+  viewTransform: false,
+  // What fills the canvas where the shifted video doesn't reach
+  edgeMode: 'mirror' as EdgeMode,
+  // Seal charge: hold duration (ms), dropout grace and release decay
+  charge: {
+    holdDuration: 3000,
+    graceFrames: 3,
+    graceMs: 150,
+    decayRate: 0.5,
+  } as ChargeOptions,
+  // Seals that charge a domain expansion (the first one detected wins); each expands its own theme
+  triggerGestures: [MURYO_KUSHO, GASSHO],
+  // Lower detection rate and input resolution under load, raise them with headroom
+  adaptiveInference: true,
+  // Video export: include the debug overlay (when shown) and the effect sound
+  recordDebugLayer: false,
+  recordAudio: true,
+  // Hold the snapshot gesture to start a countdown, then capture the view into the gallery
+  snapshotMode: false,
+  snapshotGesture: PEACE_SIGN,
+  snapshot: {
+    holdDuration: 1000,
+    countdown: 3000,
+  } as SnapshotTriggerOptions,
+  // HandLandmarker options (query parameters override the defaults)
+  tracker: {
+    ...DEFAULT_HAND_TRACKER_OPTIONS,
+    ...parseHandTrackerParams(new URLSearchParams(window.location.search)),
+  } as HandTrackerOptions,
 };
 
 // State
 let handTracker: HandTracker;
+let cameraManager: CameraManager | null = null;
+// Where frames come from: the camera, a video file or an image sequence
+let inputSource: InputSource | null = null;
 let video: HTMLVideoElement;
 let canvas: HTMLCanvasElement;
 let ctx: CanvasRenderingContext2D;
@@ -24,11 +113,40 @@ let effectCtx: CanvasRenderingContext2D;
 let domainEffect: DomainExpansionEffect;
 
 // Pose detection state
-let muryoKushoStartTime: number | null = null; // When pose was first detected
-let muryoKushoTriggered = false; // Whether effect was already triggered for current pose
+const sealCharge = new ChargeTracker(CONFIG.charge);
+// Last seal seen while charging, which picks the domain to expand
+let chargingGesture = CONFIG.triggerGestures[0];
 
-// Smoothed finger position (normalized 0-1)
-let smoothedFingerPos: Point2D | null = null;
+// Seal chains that trigger the effect when completed in order
+let sealChains: GestureSequenceRecognizer[] = [];
+
+// Smoothed anchor position (normalized 0-1)
+let smoothedAnchorPos: Point2D | null = null;
+let anchorFilter: PointFilter = createPointFilter(CONFIG.filterType, CONFIG.smoothingFactor);
+
+// Pinch zoom and roll rotation of the view
+const viewTransform = new ViewTransformController();
+
+const videoFramer = new VideoFramer();
+
+// Paces detections against measured inference and render time
+const inferenceScheduler = new InferenceScheduler();
+
+// Captures raw landmarker results while recording is on
+const landmarkRecorder = new LandmarkRecorder();
+
+// Flattens the canvas layers into the exported video
+const viewCompositor = new ViewCompositor();
+// Snapshots get their own canvas so they never draw into the one being recorded
+const snapshotCompositor = new ViewCompositor();
+const viewRecorder = new ViewRecorder();
+// Effect sound routed through Web Audio for recording (created on first use)
+let effectAudio: MediaStream | null = null;
+
+const snapshotTrigger = new SnapshotTrigger(CONFIG.snapshot);
+const snapshotGallery = new SnapshotGallery();
+// Object URLs of the thumbnails currently shown, revoked when the gallery is redrawn
+let galleryUrls: string[] = [];
 
 // Sound effect for domain expansion
 let domainExpansionSound: HTMLAudioElement;
@@ -56,31 +174,169 @@ function resizeCanvases(): void {
 // Initialize application
 async function init(): Promise<void> {
   setupDOM();
-  await setupCamera();
-  await setupHandTracker();
+  registerServiceWorker();
+
+  // ?replay=<url> plays a landmark recording instead of using the camera and model
+  const replayUrl = new URLSearchParams(window.location.search).get('replay');
+  if (replayUrl) {
+    await setupReplay(replayUrl);
+  } else {
+    // Without a camera the app still runs on a video file or images
+    const hasCamera = await setupCamera().then(() => true, (error) => {
+      console.error(error);
+      return false;
+    });
+    await setupHandTracker();
+    if (!hasCamera) {
+      updateStatus('カメラが使えません - 動画ファイルか画像をドロップしてください');
+    }
+  }
   startRenderLoop();
 }
 
+// Cache the app, MediaPipe runtime and model so the deployed build works offline
+function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`)
+    .catch((error) => console.warn('Service worker registration failed:', error));
+}
+
 function setupDOM(): void {
   const app = document.querySelector<HTMLDivElement>('#app')!;
+  const landmarkOptions = (Object.keys(LANDMARK_LABELS) as HandLandmarkName[])
+    .map((name) => `<option value="${name}">${LANDMARK_LABELS[name]}</option>`)
+    .join('');
+  const edgeModeOptions = (Object.keys(EDGE_MODE_LABELS) as EdgeMode[])
+    .map((mode) => `<option value="${mode}">${EDGE_MODE_LABELS[mode]}</option>`)
+    .join('');
+  const resolutionOptions = (Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[])
+    .map((preset) => `<option value="${preset}">${RESOLUTION_PRESETS[preset].label}</option>`)
+    .join('');
   app.innerHTML = `
     <div class="container">
       <h1>Finger Camera</h1>
-      <p class="description">右手の人差し指の先端が画面中央に固定されます</p>
+      <p class="description">選んだアンカー（初期設定は右手の人差し指の先端）が画面中央に固定されます</p>
       <div class="canvas-container">
         <canvas id="output-canvas"></canvas>
         <canvas id="debug-canvas"></canvas>
         <canvas id="effect-canvas"></canvas>
       </div>
+      <div id="countdown"></div>
       <div class="controls">
         <label>
           <input type="checkbox" id="debug-toggle">
           デバッグ表示
         </label>
+        <label>
+          <input type="checkbox" id="debug-raw-landmarks-toggle">
+          平滑化前のランドマークを表示
+        </label>
+        <label>
+          <input type="checkbox" id="landmark-smoothing-toggle" checked>
+          全ランドマーク平滑化
+        </label>
+        <label>
+          <input type="checkbox" id="view-transform-toggle">
+          ピンチでズーム・手の傾きで回転
+        </label>
+        <label>
+          <input type="checkbox" id="snapshot-toggle">
+          ピースで撮影
+        </label>
+        <button id="video-record-button">録画開始</button>
+        <label>
+          <input type="checkbox" id="record-debug-toggle">
+          デバッグ表示も録画
+        </label>
+        <label>
+          <input type="checkbox" id="record-audio-toggle">
+          効果音も録画
+        </label>
         <label>
           スムージング: <span id="smoothing-value">0.50</span>
           <input type="range" id="smoothing-slider" min="0.05" max="1.0" step="0.01" value="0.5">
         </label>
+        <label>
+          アンカー:
+          <select id="anchor-type">
+            <option value="landmark">ランドマーク</option>
+            <option value="palm">手のひら</option>
+            <option value="handsMidpoint">両手の中間</option>
+            <option value="landmarkMidpoint">2点の中間</option>
+          </select>
+          <select id="anchor-hand">
+            ${(Object.keys(HAND_LABELS) as AnchorHand[]).map((hand) => `<option value="${hand}">${HAND_LABELS[hand]}</option>`).join('')}
+          </select>
+          <select id="anchor-landmark">${landmarkOptions}</select>
+          <select id="anchor-landmark-to">${landmarkOptions}</select>
+        </label>
+        <label>
+          フィルタ:
+          <select id="filter-select">
+            <option value="exponential">指数</option>
+            <option value="oneEuro">One Euro</option>
+            <option value="kalman">カルマン</option>
+          </select>
+        </label>
+        <label>
+          画面端:
+          <select id="edge-mode-select">${edgeModeOptions}</select>
+        </label>
+        <label>
+          カメラ:
+          <select id="camera-select"></select>
+          <select id="resolution-select">${resolutionOptions}</select>
+        </label>
+        <label>
+          動画:
+          <input type="file" id="video-input" accept="video/*">
+        </label>
+        <label>
+          画像フォルダ:
+          <input type="file" id="image-folder-input" webkitdirectory multiple>
+        </label>
+        <button id="camera-input-button" style="display: none;">カメラに戻す</button>
+        <button id="record-button">記録開始</button>
+        <label>
+          再生:
+          <input type="file" id="replay-input" accept=".ndjson,.json">
+        </label>
+        <details class="gallery">
+          <summary>ギャラリー (<span id="gallery-count">0</span>)</summary>
+          <div id="gallery-grid"></div>
+        </details>
+        <details class="tracker-options">
+          <summary>検出設定 (<span id="delegate-value">-</span>)</summary>
+          <label>
+            デリゲート:
+            <select id="delegate-select">
+              <option value="GPU">GPU</option>
+              <option value="CPU">CPU</option>
+            </select>
+          </label>
+          <label>
+            手の数:
+            <select id="num-hands-select">
+              ${Array.from({ length: MAX_HANDS }, (_, i) => `<option value="${i + 1}">${i + 1}</option>`).join('')}
+            </select>
+          </label>
+          <label>
+            モデル:
+            <select id="model-select">
+              ${(Object.keys(MODEL_VARIANT_LABELS) as ModelVariant[]).map((variant) => `<option value="${variant}">${MODEL_VARIANT_LABELS[variant]}</option>`).join('')}
+            </select>
+          </label>
+          ${CONFIDENCE_OPTIONS.map((name) => `
+          <label>
+            ${CONFIDENCE_LABELS[name]}: <span id="${name}-value"></span>
+            <input type="range" id="${name}-slider" min="0.05" max="0.95" step="0.05">
+          </label>`).join('')}
+          <label>
+            <input type="checkbox" id="adaptive-inference-toggle">
+            負荷に応じて検出を間引く
+          </label>
+        </details>
       </div>
       <div id="status">初期化中...</div>
     </div>
@@ -104,7 +360,7 @@ function setupDOM(): void {
   domainEffect = new DomainExpansionEffect(effectCanvas);
 
   // Initialize sound effect
-  domainExpansionSound = new Audio(`${import.meta.env.BASE_URL}sound.mp3`);
+  domainExpansionSound = new Audio(themeSoundUrl(DEFAULT_THEME));
   domainExpansionSound.preload = 'auto';
 
   // Handle window resize
@@ -119,118 +375,677 @@ function setupDOM(): void {
     debugCanvas.style.display = CONFIG.showDebug ? 'block' : 'none';
   });
 
+  const rawLandmarksToggle = document.getElementById('debug-raw-landmarks-toggle') as HTMLInputElement;
+  rawLandmarksToggle.checked = CONFIG.debugLandmarkInput === 'raw';
+  rawLandmarksToggle.addEventListener('change', (e) => {
+    CONFIG.debugLandmarkInput = (e.target as HTMLInputElement).checked ? 'raw' : 'smoothed';
+  });
+
+  const landmarkSmoothingToggle = document.getElementById('landmark-smoothing-toggle') as HTMLInputElement;
+  landmarkSmoothingToggle.checked = CONFIG.landmarkSmoothing;
+  landmarkSmoothingToggle.addEventListener('change', (e) => {
+    CONFIG.landmarkSmoothing = (e.target as HTMLInputElement).checked;
+    applyLandmarkSmoothing();
+  });
+
+  const viewTransformToggle = document.getElementById('view-transform-toggle') as HTMLInputElement;
+  viewTransformToggle.checked = CONFIG.viewTransform;
+  viewTransformToggle.addEventListener('change', (e) => {
+    CONFIG.viewTransform = (e.target as HTMLInputElement).checked;
+    viewTransform.reset();
+  });
+
+  setupVideoRecordingControls();
+  setupSnapshotControls();
+
   const smoothingSlider = document.getElementById('smoothing-slider') as HTMLInputElement;
   const smoothingValue = document.getElementById('smoothing-value') as HTMLSpanElement;
   smoothingSlider.addEventListener('input', (e) => {
     CONFIG.smoothingFactor = parseFloat((e.target as HTMLInputElement).value);
     smoothingValue.textContent = CONFIG.smoothingFactor.toFixed(2);
+    anchorFilter.setSmoothing(CONFIG.smoothingFactor);
+    applyLandmarkSmoothing();
+  });
+
+  setupAnchorControls();
+
+  const filterSelect = document.getElementById('filter-select') as HTMLSelectElement;
+  filterSelect.value = CONFIG.filterType;
+  filterSelect.addEventListener('change', (e) => {
+    CONFIG.filterType = (e.target as HTMLSelectElement).value as PointFilterType;
+    anchorFilter = createPointFilter(CONFIG.filterType, CONFIG.smoothingFactor);
+    // Restart from the current position instead of filtering from stale state
+    smoothedAnchorPos = null;
+    applyLandmarkSmoothing();
+  });
+
+  const edgeModeSelect = document.getElementById('edge-mode-select') as HTMLSelectElement;
+  edgeModeSelect.value = CONFIG.edgeMode;
+  edgeModeSelect.addEventListener('change', (e) => {
+    CONFIG.edgeMode = (e.target as HTMLSelectElement).value as EdgeMode;
+  });
+
+  setupTrackerControls();
+
+  const recordButton = document.getElementById('record-button') as HTMLButtonElement;
+  recordButton.addEventListener('click', () => {
+    if (landmarkRecorder.isRecording()) {
+      const recording = landmarkRecorder.stop();
+      downloadRecording(recording, `landmarks-${Date.now()}.ndjson`);
+      updateStatus(`${recording.frames.length}フレームを記録しました`);
+      recordButton.textContent = '記録開始';
+    } else {
+      landmarkRecorder.start();
+      recordButton.textContent = '記録停止';
+    }
+  });
+
+  setupInputControls();
+
+  const replayInput = document.getElementById('replay-input') as HTMLInputElement;
+  replayInput.addEventListener('change', async () => {
+    const file = replayInput.files?.[0];
+    if (!file) return;
+    try {
+      await startReplay(parseRecording(await file.text()));
+    } catch (error) {
+      updateStatus('記録の読み込みに失敗しました: ' + (error as Error).message);
+    }
   });
 }
 
-async function setupCamera(): Promise<void> {
-  updateStatus('カメラを起動中...');
+function setupVideoRecordingControls(): void {
+  const recordButton = document.getElementById('video-record-button') as HTMLButtonElement;
+  const debugToggle = document.getElementById('record-debug-toggle') as HTMLInputElement;
+  const audioToggle = document.getElementById('record-audio-toggle') as HTMLInputElement;
+
+  if (!ViewRecorder.isSupported()) {
+    recordButton.disabled = true;
+    recordButton.title = 'このブラウザはWebM録画に対応していません';
+  }
+
+  debugToggle.checked = CONFIG.recordDebugLayer;
+  debugToggle.addEventListener('change', () => {
+    CONFIG.recordDebugLayer = debugToggle.checked;
+  });
+
+  audioToggle.checked = CONFIG.recordAudio;
+  audioToggle.addEventListener('change', () => {
+    CONFIG.recordAudio = audioToggle.checked;
+  });
+
+  recordButton.addEventListener('click', async () => {
+    if (viewRecorder.isRecording()) {
+      recordButton.disabled = true;
+      const recording = await viewRecorder.stop();
+      recordButton.disabled = false;
+      recordButton.textContent = '録画開始';
+      downloadBlob(recording, `finger-camera-${Date.now()}.webm`);
+      updateStatus(`録画を保存しました (${(recording.size / 1024 / 1024).toFixed(1)}MB)`);
+      return;
+    }
+
+    // Audio can only be tapped from a user gesture, and only once per element
+    if (CONFIG.recordAudio && !effectAudio) {
+      effectAudio = captureElementAudio(domainExpansionSound);
+    }
+    viewRecorder.start(composeView(), CONFIG.recordAudio ? effectAudio : null);
+    recordButton.textContent = '録画停止';
+  });
+}
+
+/**
+ * Flatten the view as shown: video, then the debug overlay if wanted, then the effect
+ */
+function composeView(compositor = viewCompositor, includeDebug = CONFIG.recordDebugLayer): HTMLCanvasElement {
+  const debugLayer = CONFIG.showDebug && includeDebug ? debugCanvas : null;
+  return compositor.compose([canvas, debugLayer, effectCanvas]);
+}
+
+function setupSnapshotControls(): void {
+  const snapshotToggle = document.getElementById('snapshot-toggle') as HTMLInputElement;
+  snapshotToggle.checked = CONFIG.snapshotMode;
+  snapshotToggle.addEventListener('change', () => {
+    CONFIG.snapshotMode = snapshotToggle.checked;
+    snapshotTrigger.reset();
+    updateCountdown(performance.now());
+  });
+
+  void renderGallery();
+}
+
+/**
+ * Save the view as shown, without the debug overlay, to the gallery
+ */
+async function takeSnapshot(): Promise<void> {
+  try {
+    // The pixels are copied right away, so later frames don't leak in
+    const image = await canvasToBlob(composeView(snapshotCompositor, false));
+    await snapshotGallery.add(image);
+    updateStatus('撮影しました');
+    await renderGallery();
+  } catch (error) {
+    updateStatus('撮影に失敗しました: ' + (error as Error).message);
+  }
+}
+
+async function renderGallery(): Promise<void> {
+  const grid = document.getElementById('gallery-grid') as HTMLDivElement;
+  const count = document.getElementById('gallery-count') as HTMLSpanElement;
 
+  let snapshots: Snapshot[];
   try {
-    const stream = await navigator.mediaDevices.getUserMedia({
-      video: {
-        width: { ideal: 1280 },
-        height: { ideal: 720 },
-        facingMode: 'user',
-      },
-      audio: false,
+    snapshots = await snapshotGallery.list();
+  } catch (error) {
+    console.warn('Failed to load the gallery:', error);
+    return;
+  }
+
+  for (const url of galleryUrls) {
+    URL.revokeObjectURL(url);
+  }
+  galleryUrls = [];
+  count.textContent = String(snapshots.length);
+
+  grid.replaceChildren(...snapshots.map((snapshot) => {
+    const item = document.createElement('div');
+    item.className = 'gallery-item';
+
+    const thumbnail = document.createElement('img');
+    const url = URL.createObjectURL(snapshot.thumbnail);
+    galleryUrls.push(url);
+    thumbnail.src = url;
+    thumbnail.alt = new Date(snapshot.createdAt).toLocaleString();
+    thumbnail.title = thumbnail.alt;
+
+    const downloadButton = document.createElement('button');
+    downloadButton.textContent = '保存';
+    downloadButton.addEventListener('click', () => {
+      downloadBlob(snapshot.image, `finger-camera-${snapshot.createdAt}.png`);
     });
 
-    video.srcObject = stream;
+    const deleteButton = document.createElement('button');
+    deleteButton.textContent = '削除';
+    deleteButton.addEventListener('click', async () => {
+      try {
+        await snapshotGallery.delete(snapshot.id);
+      } catch (error) {
+        console.warn('Failed to delete the snapshot:', error);
+        updateStatus('削除に失敗しました: ' + (error as Error).message);
+      }
+      // Show what the gallery actually holds, whether or not the delete went through
+      await renderGallery();
+    });
 
-    await new Promise<void>((resolve) => {
-      video.onloadedmetadata = () => {
-        video.play();
-        resolve();
-      };
+    item.append(thumbnail, downloadButton, deleteButton);
+    return item;
+  }));
+}
+
+/**
+ * Countdown overlay; a DOM element so it never ends up in the snapshot
+ */
+function updateCountdown(now: number): void {
+  const countdown = document.getElementById('countdown') as HTMLDivElement;
+  const remaining = CONFIG.snapshotMode ? snapshotTrigger.getCountdownRemaining(now) : null;
+  const text = remaining === null ? '' : String(Math.ceil(remaining / 1000));
+  if (countdown.textContent !== text) {
+    countdown.textContent = text;
+  }
+}
+
+function setupAnchorControls(): void {
+  const typeSelect = document.getElementById('anchor-type') as HTMLSelectElement;
+  const handSelect = document.getElementById('anchor-hand') as HTMLSelectElement;
+  const landmarkSelect = document.getElementById('anchor-landmark') as HTMLSelectElement;
+  const landmarkToSelect = document.getElementById('anchor-landmark-to') as HTMLSelectElement;
+
+  // Show only the selects the anchor type uses
+  const updateVisibility = () => {
+    const type = typeSelect.value as AnchorType;
+    handSelect.style.display = type === 'handsMidpoint' ? 'none' : '';
+    landmarkSelect.style.display = type === 'landmark' || type === 'landmarkMidpoint' ? '' : 'none';
+    landmarkToSelect.style.display = type === 'landmarkMidpoint' ? '' : 'none';
+  };
+
+  const anchor = CONFIG.anchor;
+  typeSelect.value = anchor.type;
+  handSelect.value = anchor.type === 'handsMidpoint' ? 'Right' : anchor.hand;
+  landmarkSelect.value = anchor.type === 'landmark' ? anchor.landmark
+    : anchor.type === 'landmarkMidpoint' ? anchor.from : 'INDEX_FINGER_TIP';
+  landmarkToSelect.value = anchor.type === 'landmarkMidpoint' ? anchor.to : 'THUMB_TIP';
+  updateVisibility();
+
+  const onChange = () => {
+    const type = typeSelect.value as AnchorType;
+    const hand = handSelect.value as AnchorHand;
+    const landmark = landmarkSelect.value as HandLandmarkName;
+
+    let spec: AnchorSpec;
+    switch (type) {
+      case 'palm':
+        spec = { type, hand };
+        break;
+      case 'handsMidpoint':
+        spec = { type };
+        break;
+      case 'landmarkMidpoint':
+        spec = { type, hand, from: landmark, to: landmarkToSelect.value as HandLandmarkName };
+        break;
+      default:
+        spec = { type: 'landmark', hand, landmark };
+    }
+
+    CONFIG.anchor = spec;
+    saveAnchor(spec);
+    updateVisibility();
+    // Start smoothing afresh at the new anchor instead of sliding over from the old one
+    smoothedAnchorPos = null;
+  };
+
+  for (const select of [typeSelect, handSelect, landmarkSelect, landmarkToSelect]) {
+    select.addEventListener('change', onChange);
+  }
+}
+
+function setupTrackerControls(): void {
+  const delegateSelect = document.getElementById('delegate-select') as HTMLSelectElement;
+  const numHandsSelect = document.getElementById('num-hands-select') as HTMLSelectElement;
+  const modelSelect = document.getElementById('model-select') as HTMLSelectElement;
+
+  delegateSelect.value = CONFIG.tracker.delegate;
+  delegateSelect.addEventListener('change', () => {
+    applyTrackerOptions({ delegate: delegateSelect.value === 'CPU' ? 'CPU' : 'GPU' });
+  });
+
+  numHandsSelect.value = String(CONFIG.tracker.numHands);
+  numHandsSelect.addEventListener('change', () => {
+    applyTrackerOptions({ numHands: parseInt(numHandsSelect.value, 10) });
+  });
+
+  modelSelect.value = CONFIG.tracker.model;
+  modelSelect.addEventListener('change', () => {
+    // Picking a variant replaces a custom model from the URL
+    applyTrackerOptions({ model: modelSelect.value as ModelVariant, modelAssetPath: null });
+  });
+
+  for (const name of CONFIDENCE_OPTIONS) {
+    const slider = document.getElementById(`${name}-slider`) as HTMLInputElement;
+    const value = document.getElementById(`${name}-value`) as HTMLSpanElement;
+    slider.value = String(CONFIG.tracker[name]);
+    value.textContent = CONFIG.tracker[name].toFixed(2);
+    slider.addEventListener('input', () => {
+      value.textContent = parseFloat(slider.value).toFixed(2);
+    });
+    // Rebuild once the slider is released, not on every step
+    slider.addEventListener('change', () => {
+      applyTrackerOptions({ [name]: parseFloat(slider.value) });
     });
+  }
+
+  const adaptiveToggle = document.getElementById('adaptive-inference-toggle') as HTMLInputElement;
+  adaptiveToggle.checked = CONFIG.adaptiveInference;
+  adaptiveToggle.addEventListener('change', () => {
+    CONFIG.adaptiveInference = adaptiveToggle.checked;
+    // Start over at full quality instead of at the level reached before
+    inferenceScheduler.reset();
+    handTracker?.setScheduler(CONFIG.adaptiveInference ? inferenceScheduler : null);
+  });
+}
+
+/**
+ * Rebuild the landmarker with new options and mirror them into the URL so the setup can be shared
+ */
+async function applyTrackerOptions(options: Partial<HandTrackerOptions>): Promise<void> {
+  CONFIG.tracker = { ...CONFIG.tracker, ...options };
 
+  const url = new URL(window.location.href);
+  writeHandTrackerParams(CONFIG.tracker, url.searchParams);
+  history.replaceState(null, '', url);
+
+  if (!handTracker) return;
+  updateStatus('手検出モデルを再構築中...');
+  try {
+    await handTracker.setOptions(options);
+    // Timings measured on the old model and delegate don't apply to the new one
+    inferenceScheduler.reset();
+    updateDelegateStatus();
+  } catch (error) {
+    updateStatus('手検出モデルの再構築に失敗しました: ' + (error as Error).message);
+  }
+}
+
+function updateDelegateStatus(): void {
+  const delegate = handTracker?.getActiveDelegate() ?? null;
+  const label = document.getElementById('delegate-value') as HTMLSpanElement;
+  label.textContent = delegate ?? '-';
+  if (delegate && delegate !== CONFIG.tracker.delegate) {
+    updateStatus(`${CONFIG.tracker.delegate}が使えないため${delegate}で実行中`);
+  }
+}
+
+function applyLandmarkSmoothing(): void {
+  if (!handTracker) return;
+  handTracker.setLandmarkSmoothing(
+    CONFIG.landmarkSmoothing ? { type: CONFIG.filterType, smoothing: CONFIG.smoothingFactor } : null
+  );
+}
+
+async function setupCamera(): Promise<void> {
+  updateStatus('カメラを起動中...');
+
+  cameraManager = new CameraManager(video, loadCameraSelection());
+  try {
+    await cameraManager.start();
     updateStatus('カメラ起動完了');
   } catch (error) {
     updateStatus('カメラの起動に失敗しました: ' + (error as Error).message);
+    cameraManager.destroy();
+    cameraManager = null;
     throw error;
   }
+
+  setupCameraControls(cameraManager);
+  setInputSource(cameraManager);
+}
+
+function setupCameraControls(manager: CameraManager): void {
+  const cameraSelect = document.getElementById('camera-select') as HTMLSelectElement;
+  const resolutionSelect = document.getElementById('resolution-select') as HTMLSelectElement;
+
+  const populate = (devices: CameraDevice[]) => {
+    // Labels come from the system, so build options without going through HTML
+    cameraSelect.replaceChildren(...devices.map((device) => new Option(device.label, device.deviceId)));
+    const active = manager.getActiveDeviceId();
+    if (active) cameraSelect.value = active;
+  };
+  populate(manager.getDevices());
+  manager.setDeviceChangeHandler(populate);
+  resolutionSelect.value = manager.getSelection().preset;
+
+  const onChange = async () => {
+    const selection = {
+      deviceId: cameraSelect.value || null,
+      preset: resolutionSelect.value as ResolutionPreset,
+    };
+    updateStatus('カメラを切り替え中...');
+    try {
+      await manager.start(selection);
+      saveCameraSelection(manager.getSelection());
+      setInputSource(manager);
+      updateStatus('カメラ起動完了');
+    } catch (error) {
+      updateStatus('カメラの切り替えに失敗しました: ' + (error as Error).message);
+    }
+    // Show the camera actually running, which is the previous one after a failed switch
+    populate(manager.getDevices());
+    resolutionSelect.value = manager.getSelection().preset;
+    // The new camera sees the scene from elsewhere; don't slide over from the old anchor
+    smoothedAnchorPos = null;
+    viewTransform.reset();
+  };
+  cameraSelect.addEventListener('change', onChange);
+  resolutionSelect.addEventListener('change', onChange);
+}
+
+function setupInputControls(): void {
+  const videoInput = document.getElementById('video-input') as HTMLInputElement;
+  videoInput.addEventListener('change', () => {
+    const file = videoInput.files?.[0];
+    if (file) void openInputFiles([file]);
+    videoInput.value = '';
+  });
+
+  const imageFolderInput = document.getElementById('image-folder-input') as HTMLInputElement;
+  imageFolderInput.addEventListener('change', () => {
+    const files = Array.from(imageFolderInput.files ?? []);
+    if (files.length > 0) void openInputFiles(files);
+    imageFolderInput.value = '';
+  });
+
+  const cameraButton = document.getElementById('camera-input-button') as HTMLButtonElement;
+  cameraButton.addEventListener('click', async () => {
+    try {
+      if (!cameraManager) {
+        await setupCamera();
+      } else {
+        await cameraManager.start();
+        setInputSource(cameraManager);
+        updateStatus('カメラ起動完了');
+      }
+      await ensureLiveTracker();
+    } catch (error) {
+      updateStatus('カメラの起動に失敗しました: ' + (error as Error).message);
+    }
+  });
+
+  // A video file, image files or a folder of images can be dropped anywhere on the page
+  window.addEventListener('dragover', (e) => e.preventDefault());
+  window.addEventListener('drop', async (e) => {
+    e.preventDefault();
+    if (!e.dataTransfer) return;
+    await openInputFiles(await readDroppedFiles(e.dataTransfer));
+  });
+}
+
+/**
+ * Play a video file, or the image files as a sequence, instead of the camera
+ */
+async function openInputFiles(files: File[]): Promise<void> {
+  updateStatus('入力を読み込み中...');
+  try {
+    const videoFile = files.find((file) => file.type.startsWith('video/'));
+    let source: InputSource;
+    let description: string;
+    if (videoFile) {
+      const videoSource = new VideoFileSource(videoFile);
+      await videoSource.start();
+      source = videoSource;
+      description = videoFile.name;
+    } else {
+      const sequence = new ImageSequenceSource(files);
+      source = sequence;
+      description = `${sequence.frameCount}枚の画像`;
+    }
+
+    setInputSource(source);
+    await ensureLiveTracker();
+    updateStatus(`入力: ${description}`);
+  } catch (error) {
+    updateStatus('入力の読み込みに失敗しました: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Switch the frames fed to the tracker and the view, releasing the previous source
+ */
+function setInputSource(source: InputSource): void {
+  if (inputSource && inputSource !== source) {
+    inputSource.stop();
+  }
+  inputSource = source;
+  // A different input brings a different frame size and rate
+  inferenceScheduler.reset();
+  handTracker?.resetInput();
+  (document.getElementById('camera-input-button') as HTMLButtonElement).style.display =
+    source.kind === 'camera' ? 'none' : '';
+  resetGestureState();
+}
+
+/**
+ * Frames need the landmarker; a replay tracker would ignore them
+ */
+async function ensureLiveTracker(): Promise<void> {
+  if (handTracker && !(handTracker instanceof ReplayHandTracker)) return;
+  handTracker?.destroy();
+  await setupHandTracker();
+}
+
+/**
+ * Whether the input is shown flipped horizontally (front cameras, and replays without any input)
+ */
+function isMirrored(): boolean {
+  return inputSource?.isMirrored() ?? true;
+}
+
+/**
+ * Canvas x of a normalized landmark x, matching how the video is drawn
+ */
+function displayX(x: number, width: number): number {
+  return (isMirrored() ? 1 - x : x) * width;
 }
 
 async function setupHandTracker(): Promise<void> {
   updateStatus('手検出モデルを読み込み中...');
 
-  handTracker = new HandTracker();
+  handTracker = new HandTracker(CONFIG.tracker);
+  await handTracker.initialize();
+  handTracker.setRecorder(landmarkRecorder);
+  inferenceScheduler.reset();
+  handTracker.setScheduler(CONFIG.adaptiveInference ? inferenceScheduler : null);
+  applyLandmarkSmoothing();
+  resetGestureState();
+
+  updateStatus(`準備完了！ (${handTracker.getActiveDelegate()})`);
+  updateDelegateStatus();
+}
+
+async function setupReplay(url: string): Promise<void> {
+  updateStatus('記録を読み込み中...');
+
+  try {
+    const response = await fetch(new URL(url, document.baseURI));
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    await startReplay(parseRecording(await response.text()));
+  } catch (error) {
+    updateStatus('記録の読み込みに失敗しました: ' + (error as Error).message);
+    throw error;
+  }
+}
+
+/**
+ * Swap the tracker for one that plays the recording back
+ */
+async function startReplay(recording: LandmarkRecording): Promise<void> {
+  handTracker?.destroy();
+  handTracker = new ReplayHandTracker(recording);
   await handTracker.initialize();
+  inferenceScheduler.reset();
+  applyLandmarkSmoothing();
+  resetGestureState();
+
+  // Without camera frames the landmarks are the only thing to look at
+  CONFIG.showDebug = true;
+  (document.getElementById('debug-toggle') as HTMLInputElement).checked = true;
+  debugCanvas.style.display = 'block';
 
-  updateStatus('準備完了！');
+  updateDelegateStatus();
+  updateStatus(`記録を再生中 (${recording.frames.length}フレーム)`);
+}
+
+/**
+ * Log gesture events only while the debug overlay is on, to keep the render loop quiet
+ */
+function debugLog(message: string): void {
+  if (CONFIG.showDebug) console.log(message);
+}
+
+function resetGestureState(): void {
+  sealChains = BUILTIN_SEQUENCES.map((definition) => new GestureSequenceRecognizer(definition));
+  sealCharge.reset();
+  snapshotTrigger.reset();
+  viewTransform.reset();
+  smoothedAnchorPos = null;
 }
 
 function startRenderLoop(): void {
   let frameCount = 0;
+  let lastRender: number | null = null;
 
   function render(): void {
     const timestamp = performance.now();
+    const frameDelta = lastRender === null ? 0 : timestamp - lastRender;
+    lastRender = timestamp;
     frameCount++;
 
-    // Detect hands
-    const result = handTracker.detect(video, timestamp);
+    // Detect hands on the input's current frame, timed by the frame itself
+    const frame = inputSource?.getFrame(timestamp) ?? null;
+    const result = handTracker.detect(frame, frame?.timestamp ?? timestamp);
+    const seal = findTriggerGesture(result);
+    if (seal.detected) {
+      chargingGesture = seal.name;
+    }
 
-    // Update smoothed finger position (only on new frames with detection)
-    if (result.isNewFrame && result.rightIndexFingerTip) {
-      if (smoothedFingerPos === null) {
-        smoothedFingerPos = { ...result.rightIndexFingerTip };
-      } else {
-        // Apply exponential smoothing (low-pass filter)
-        smoothedFingerPos.x += (result.rightIndexFingerTip.x - smoothedFingerPos.x) * CONFIG.smoothingFactor;
-        smoothedFingerPos.y += (result.rightIndexFingerTip.y - smoothedFingerPos.y) * CONFIG.smoothingFactor;
+    const anchorPoint = resolveAnchor(CONFIG.anchor, result.allHands, result.hands);
+
+    // Update smoothed anchor position (only on new frames with detection)
+    if (result.isNewFrame && anchorPoint) {
+      if (smoothedAnchorPos === null) {
+        anchorFilter.reset();
       }
+      // Filter against the frame's detection timestamp, not the render time
+      smoothedAnchorPos = anchorFilter.filter(anchorPoint, result.timestamp);
 
       // Debug log every 30 frames
       if (frameCount % 30 === 0) {
-        console.log(`[Frame ${frameCount}] rightIndexFingerTip: (${result.rightIndexFingerTip.x.toFixed(3)}, ${result.rightIndexFingerTip.y.toFixed(3)})`);
-        console.log(`[Frame ${frameCount}] smoothedFingerPos: (${smoothedFingerPos.x.toFixed(3)}, ${smoothedFingerPos.y.toFixed(3)})`);
+        console.log(`[Frame ${frameCount}] anchorPoint: (${anchorPoint.x.toFixed(3)}, ${anchorPoint.y.toFixed(3)})`);
+        console.log(`[Frame ${frameCount}] smoothedAnchorPos: (${smoothedAnchorPos.x.toFixed(3)}, ${smoothedAnchorPos.y.toFixed(3)})`);
       }
     }
 
-    // Check for 無量空処 pose and trigger effect (requires 3 second hold)
+    // Update zoom and rotation from the anchor hand's pinch and roll
+    if (CONFIG.viewTransform && result.isNewFrame) {
+      const controlHand = findAnchorHand(CONFIG.anchor, result.smoothedHands ?? result.allHands, result.hands);
+      viewTransform.update(controlHand, result.timestamp, isMirrored());
+    }
+
+    // Check for a trigger seal and expand its domain (requires a held charge)
     if (result.isNewFrame) {
       const canTrigger = domainEffect.canTrigger();
       const now = performance.now();
 
-      if (result.muryoKusho.detected) {
-        // Pose detected - start or continue tracking hold duration
-        if (muryoKushoStartTime === null) {
-          muryoKushoStartTime = now;
-          muryoKushoTriggered = false;
-          console.log('[Main] 無量空処 pose started, charging...');
-        }
+      const chargeEvent = sealCharge.update(seal, now);
+      if (chargeEvent === 'started') {
+        debugLog(`[Main] ${chargingGesture} pose started, charging...`);
+      } else if (chargeEvent === 'released') {
+        debugLog(`[Main] ${chargingGesture} pose released`);
+      }
 
-        const holdDuration = now - muryoKushoStartTime;
+      // Trigger effect after holding for required duration
+      const centerPoint = sealCharge.getCenterPoint();
+      if (sealCharge.isCharged() && canTrigger && centerPoint) {
+        const theme = themeForGesture(chargingGesture);
+        debugLog(`[Main] ${chargingGesture} charged! Expanding ${theme.name}...`);
+        triggerDomainExpansion(centerPoint, theme);
+        sealCharge.markTriggered();
+      }
 
-        // Trigger effect after holding for required duration
-        if (!muryoKushoTriggered && holdDuration >= CONFIG.muryoKushoHoldDuration && canTrigger && result.muryoKusho.centerPoint) {
-          console.log('[Main] 無量空処 charged! Triggering effect...');
-          domainEffect.trigger(result.muryoKusho.centerPoint);
-          // Play sound effect
-          domainExpansionSound.currentTime = 0;
-          domainExpansionSound.play().catch(e => console.warn('Sound play failed:', e));
-          muryoKushoTriggered = true;
+      // Arm the snapshot countdown once its gesture has been held
+      if (CONFIG.snapshotMode) {
+        const snapshotGesture = result.gestures[CONFIG.snapshotGesture] ?? noDetection(CONFIG.snapshotGesture);
+        if (snapshotTrigger.update(snapshotGesture, now)) {
+          debugLog('[Main] Snapshot countdown started');
         }
-      } else {
-        // Pose not detected - reset tracking
-        if (muryoKushoStartTime !== null) {
-          console.log('[Main] 無量空処 pose released');
+      }
+
+      // Advance seal chains
+      for (const chain of sealChains) {
+        for (const event of chain.update(result.gestures, now)) {
+          debugLog(`[Main] Seal chain ${event.sequence}: ${event.type}`);
+          if (event.type === 'completed' && domainEffect.canTrigger() && event.detection.centerPoint) {
+            triggerDomainExpansion(event.detection.centerPoint, themeForGesture(event.sequence));
+          }
         }
-        muryoKushoStartTime = null;
-        muryoKushoTriggered = false;
       }
     }
 
-    // Update effect
-    domainEffect.update();
+    // Update effect by the real time since the last frame
+    domainEffect.update(frameDelta);
 
     // Render main canvas (apply shake from effect if active)
-    renderMainCanvas();
+    renderMainCanvas(frame);
 
     // Render effect canvas
     effectCtx.clearRect(0, 0, effectCanvas.width, effectCanvas.height);
@@ -238,21 +1053,44 @@ function startRenderLoop(): void {
 
     // Render debug canvas (only on new frames to prevent flickering)
     if (CONFIG.showDebug && result.isNewFrame) {
-      const chargeProgress = muryoKushoStartTime !== null
-        ? Math.min(1, (performance.now() - muryoKushoStartTime) / CONFIG.muryoKushoHoldDuration)
-        : 0;
-      renderDebugCanvas(result.allHands, result.rightIndexFingerTip, result.muryoKusho.detected, chargeProgress);
+      const overlayHands = CONFIG.debugLandmarkInput === 'smoothed' && result.smoothedHands
+        ? result.smoothedHands
+        : result.allHands;
+      renderDebugCanvas(
+        overlayHands,
+        anchorPoint,
+        sealCharge.isHolding(),
+        sealCharge.getProgress(),
+        result.twoHands,
+        result.hands,
+        CONFIG.adaptiveInference ? inferenceScheduler.getMetrics() : null
+      );
+    }
+
+    // Capture once the countdown runs out, with every layer of this frame drawn
+    if (CONFIG.snapshotMode && snapshotTrigger.takeDue(performance.now())) {
+      void takeSnapshot();
+    }
+    updateCountdown(performance.now());
+
+    // Feed the video export
+    if (viewRecorder.isRecording()) {
+      composeView();
+      const seconds = Math.floor(viewRecorder.getElapsed() / 1000);
+      const recordButton = document.getElementById('video-record-button') as HTMLButtonElement;
+      recordButton.textContent = `録画停止 (${seconds}秒)`;
     }
 
     // Update status (only on new frames)
     if (result.isNewFrame) {
-      if (result.muryoKusho.detected && muryoKushoStartTime !== null) {
-        const holdDuration = performance.now() - muryoKushoStartTime;
-        const progress = Math.min(100, (holdDuration / CONFIG.muryoKushoHoldDuration) * 100);
-        const remainingSec = Math.max(0, (CONFIG.muryoKushoHoldDuration - holdDuration) / 1000).toFixed(1);
+      const activeChain = sealChains.find((chain) => chain.getProgress().state !== 'idle');
 
-        if (muryoKushoTriggered) {
-          updateStatus(`領域展開！！`);
+      if (sealCharge.isHolding()) {
+        const progress = sealCharge.getProgress() * 100;
+        const remainingSec = Math.max(0, sealCharge.getRemaining() / 1000).toFixed(1);
+
+        if (sealCharge.isTriggered()) {
+          updateStatus(`領域展開「${themeForGesture(chargingGesture).label}」！！`);
         } else {
           // Show charging progress bar
           const barLength = 20;
@@ -260,80 +1098,75 @@ function startRenderLoop(): void {
           const bar = '█'.repeat(filledLength) + '░'.repeat(barLength - filledLength);
           updateStatus(`領域展開... [${bar}] ${remainingSec}秒`);
         }
-      } else if (result.rightIndexFingerTip) {
-        updateStatus(`追跡中 - 指位置: (${(result.rightIndexFingerTip.x * 100).toFixed(1)}%, ${(result.rightIndexFingerTip.y * 100).toFixed(1)}%)`);
-      } else if (result.leftIndexFingerTip) {
-        updateStatus(`左手検出中 - 右手を使ってください`);
+      } else if (CONFIG.snapshotMode && snapshotTrigger.getHoldProgress() > 0) {
+        updateStatus(`撮影ポーズ... ${Math.floor(snapshotTrigger.getHoldProgress() * 100)}%`);
+      } else if (activeChain) {
+        const progress = activeChain.getProgress();
+        updateStatus(`印を結ぶ... ${progress.step + 1}/${progress.stepCount}`);
+      } else if (anchorPoint) {
+        updateStatus(`追跡中 - ${describeAnchor(CONFIG.anchor)}: (${(anchorPoint.x * 100).toFixed(1)}%, ${(anchorPoint.y * 100).toFixed(1)}%)`);
+      } else if (result.hands.length > 0) {
+        updateStatus(`手を検出中 - ${describeAnchor(CONFIG.anchor)}が見つかりません`);
       } else {
-        updateStatus('右手の人差し指を画面に向けてください');
+        updateStatus(`${describeAnchor(CONFIG.anchor)}を画面に向けてください`);
       }
     }
 
+    // Main-thread cost of this frame, for the inference scheduler
+    const frameEnd = performance.now();
+    inferenceScheduler.recordRender(frameEnd - timestamp, frameEnd);
+
     requestAnimationFrame(render);
   }
 
   render();
 }
 
-function renderMainCanvas(): void {
-  ctx.save();
-
-  // Clear canvas
-  ctx.fillStyle = '#1a1a1a';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  if (smoothedFingerPos) {
-    // Calculate offset to center the finger position
-    // Finger position is normalized (0-1), convert to canvas coordinates
-    const fingerY = smoothedFingerPos.y * canvas.height;
-
-    // Calculate how much we need to shift the video
-    // to place the finger at the center of the canvas
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-
-    // After mirroring (translate + scale -1), a point at normalized x appears at:
-    // canvas_x = canvas.width * (1 - x) - offsetX
-    // We want canvas_x = centerX when x = smoothedFingerPos.x
-    // So: centerX = canvas.width * (1 - smoothedFingerPos.x) - offsetX
-    // offsetX = canvas.width * (1 - smoothedFingerPos.x) - centerX
-    const mirroredFingerX = (1 - smoothedFingerPos.x) * canvas.width;
-    const offsetX = mirroredFingerX - centerX;
-    const offsetY = centerY - fingerY;
-
-    // Debug logging (throttled)
-    if (Math.random() < 0.03) {
-      console.log(`[renderMainCanvas] fingerPos: (${smoothedFingerPos.x.toFixed(3)}, ${smoothedFingerPos.y.toFixed(3)})`);
-      console.log(`[renderMainCanvas] mirroredFingerX: ${mirroredFingerX.toFixed(1)}, centerX: ${centerX.toFixed(1)}`);
-      console.log(`[renderMainCanvas] offset: (${offsetX.toFixed(1)}, ${offsetY.toFixed(1)})`);
-    }
-
-    // Draw video with offset (mirrored horizontally for natural interaction)
-    ctx.translate(canvas.width, 0);
-    ctx.scale(-1, 1);
+function triggerDomainExpansion(centerPoint: Point2D, theme: DomainTheme): void {
+  domainEffect.trigger(centerPoint, isMirrored(), theme);
+  // Play the theme's sound; the element is reused so a recording keeps capturing it
+  const sound = themeSoundUrl(theme);
+  if (domainExpansionSound.src !== sound) {
+    domainExpansionSound.src = sound;
+  }
+  domainExpansionSound.currentTime = 0;
+  domainExpansionSound.play().catch(e => console.warn('Sound play failed:', e));
+}
 
-    // Apply the offset - shift the video so the finger ends up at center
-    ctx.translate(offsetX, offsetY);
+function themeSoundUrl(theme: DomainTheme): string {
+  return new URL(`${import.meta.env.BASE_URL}${theme.sound}`, window.location.href).href;
+}
 
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-  } else {
-    // No finger detected - just show mirrored video
-    ctx.translate(canvas.width, 0);
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+function findTriggerGesture(result: HandTrackingResult): GestureDetection {
+  for (const name of CONFIG.triggerGestures) {
+    const detection = result.gestures[name];
+    if (detection?.detected) return detection;
   }
+  return noDetection(CONFIG.triggerGestures[0]);
+}
 
-  ctx.restore();
+function renderMainCanvas(frame: InputFrame | null): void {
+  const view = CONFIG.viewTransform
+    ? viewTransform.getTransform(canvas.width, canvas.height)
+    : IDENTITY_VIEW_TRANSFORM;
+  videoFramer.render(ctx, frame, smoothedAnchorPos, CONFIG.edgeMode, view, isMirrored());
 }
 
 function renderDebugCanvas(
   allHands: ReturnType<typeof handTracker.detect>['allHands'],
-  rightIndexFinger: Point2D | null,
-  muryoKushoDetected: boolean = false,
-  chargeProgress: number = 0
+  anchorPoint: Point2D | null,
+  sealHolding: boolean = false,
+  chargeProgress: number = 0,
+  twoHands: TwoHandRelations | null = null,
+  trackedHands: TrackedHand[] = [],
+  metrics: InferenceMetrics | null = null
 ): void {
   debugCtx.clearRect(0, 0, debugCanvas.width, debugCanvas.height);
 
+  if (metrics) {
+    renderInferenceMetrics(metrics);
+  }
+
   if (!allHands || !allHands.landmarks) return;
 
   // Draw all hand landmarks
@@ -353,9 +1186,9 @@ function renderDebugCanvas(
       const endPoint = landmarks[end];
 
       // Mirror X coordinate for display
-      const startX = (1 - startPoint.x) * debugCanvas.width;
+      const startX = displayX(startPoint.x, debugCanvas.width);
       const startY = startPoint.y * debugCanvas.height;
-      const endX = (1 - endPoint.x) * debugCanvas.width;
+      const endX = displayX(endPoint.x, debugCanvas.width);
       const endY = endPoint.y * debugCanvas.height;
 
       debugCtx.beginPath();
@@ -367,7 +1200,7 @@ function renderDebugCanvas(
     // Draw landmarks
     for (let j = 0; j < landmarks.length; j++) {
       const landmark = landmarks[j];
-      const x = (1 - landmark.x) * debugCanvas.width;
+      const x = displayX(landmark.x, debugCanvas.width);
       const y = landmark.y * debugCanvas.height;
 
       // Highlight index finger tip
@@ -383,18 +1216,45 @@ function renderDebugCanvas(
 
     // Draw hand label
     const wrist = landmarks[HAND_LANDMARKS.WRIST];
-    const labelX = (1 - wrist.x) * debugCanvas.width;
+    const labelX = displayX(wrist.x, debugCanvas.width);
     const labelY = wrist.y * debugCanvas.height + 30;
 
     debugCtx.font = '14px sans-serif';
     debugCtx.fillStyle = isRightHand ? '#00ff00' : '#ff8800';
-    debugCtx.fillText(isRightHand ? '右手' : '左手', labelX - 15, labelY);
+    const tracked = trackedHands[i];
+    const handText = isRightHand ? '右手' : '左手';
+    debugCtx.fillText(tracked ? `${handText} #${tracked.id} (${(tracked.age / 1000).toFixed(1)}s)` : handText, labelX - 15, labelY);
+  }
+
+  // Draw link between paired hands with their cross-hand relations
+  if (twoHands) {
+    const left = palmCentroid(twoHands.pair.left.landmarks);
+    const right = palmCentroid(twoHands.pair.right.landmarks);
+    const leftX = displayX(left.x, debugCanvas.width);
+    const rightX = displayX(right.x, debugCanvas.width);
+
+    debugCtx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    debugCtx.lineWidth = 1;
+    debugCtx.setLineDash([4, 4]);
+    debugCtx.beginPath();
+    debugCtx.moveTo(leftX, left.y * debugCanvas.height);
+    debugCtx.lineTo(rightX, right.y * debugCanvas.height);
+    debugCtx.stroke();
+    debugCtx.setLineDash([]);
+
+    debugCtx.font = '12px sans-serif';
+    debugCtx.fillStyle = '#ffffff';
+    debugCtx.fillText(
+      `掌向き ${twoHands.palmFacing.toFixed(2)} / 重なり ${twoHands.palmOverlap.toFixed(2)}`,
+      displayX(twoHands.center.x, debugCanvas.width) - 60,
+      twoHands.center.y * debugCanvas.height - 10
+    );
   }
 
   // Draw current tracking target indicator
-  if (rightIndexFinger) {
-    const x = (1 - rightIndexFinger.x) * debugCanvas.width;
-    const y = rightIndexFinger.y * debugCanvas.height;
+  if (anchorPoint) {
+    const x = displayX(anchorPoint.x, debugCanvas.width);
+    const y = anchorPoint.y * debugCanvas.height;
 
     debugCtx.strokeStyle = '#00ffff';
     debugCtx.lineWidth = 2;
@@ -410,8 +1270,8 @@ function renderDebugCanvas(
     debugCtx.fillText('追跡中', x - 20, y - 20);
   }
 
-  // Draw 無量空処 detection indicator with charge progress
-  if (muryoKushoDetected) {
+  // Draw the charge progress of the seal being held
+  if (sealHolding) {
     const centerX = debugCanvas.width / 2;
     const centerY = debugCanvas.height / 2;
 
@@ -459,12 +1319,30 @@ function renderDebugCanvas(
     debugCtx.fillStyle = '#ff00ff';
     debugCtx.textAlign = 'center';
     debugCtx.textBaseline = 'alphabetic';
-    const statusText = chargeProgress >= 1 ? '無量空処！' : '領域展開...';
+    const statusText = chargeProgress >= 1 ? `${themeForGesture(chargingGesture).label}！` : '領域展開...';
     debugCtx.fillText(statusText, debugCanvas.width / 2, 40);
     debugCtx.textAlign = 'start';
   }
 }
 
+function renderInferenceMetrics(metrics: InferenceMetrics): void {
+  const lines = [
+    `推論: ${metrics.inferenceMs.toFixed(1)}ms`,
+    `描画: ${metrics.renderMs.toFixed(1)}ms`,
+    `検出: ${metrics.detectionRate.toFixed(1)}回/秒`,
+    `レベル${metrics.level}: 解像度${Math.round(metrics.inputScale * 100)}% / 間隔${metrics.minInterval}ms`,
+  ];
+
+  debugCtx.font = '12px monospace';
+  debugCtx.textAlign = 'start';
+  debugCtx.textBaseline = 'top';
+  debugCtx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  debugCtx.fillRect(16, 16, 260, lines.length * 16 + 8);
+  debugCtx.fillStyle = '#00ff00';
+  lines.forEach((line, i) => debugCtx.fillText(line, 20, 20 + i * 16));
+  debugCtx.textBaseline = 'alphabetic';
+}
+
 function getHandConnections(): [number, number][] {
   return [
     // Thumb
@@ -0,0 +1,23 @@
+/**
+ * Self-hosted MediaPipe assets
+ * scripts/fetch-mediapipe-assets.mjs puts the WASM runtime of the installed
+ * @mediapipe/tasks-vision and the hand landmarker models under public/mediapipe
+ */
+
+const ASSET_ROOT = `${import.meta.env.BASE_URL}mediapipe`;
+
+// Published hand landmarker bundles; only the full one exists so far
+export type ModelVariant = 'full';
+
+// Paths under the MediaPipe model storage, mirrored locally
+// Keep in sync with MODELS in scripts/fetch-mediapipe-assets.mjs
+export const HAND_LANDMARKER_MODELS: Record<ModelVariant, string> = {
+  full: 'hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+// Versioned, so a dependency bump never meets a runtime cached from the previous one
+export const MEDIAPIPE_WASM_URL = `${ASSET_ROOT}/tasks-vision/${__TASKS_VISION_VERSION__}/wasm`;
+
+export function handLandmarkerModelUrl(variant: ModelVariant): string {
+  return `${ASSET_ROOT}/models/${HAND_LANDMARKER_MODELS[variant]}`;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ExponentialFilter, KalmanFilter, OneEuroFilter, PointFilter, createPointFilter } from './point-filter';
+
+const FRAME_MS = 1000 / 30;
+
+/**
+ * Run x-only samples one frame apart and return the filtered x values
+ */
+function run(filter: PointFilter, xs: number[], frameMs = FRAME_MS): number[] {
+  return xs.map((x, i) => filter.filter({ x, y: 0 }, i * frameMs).x);
+}
+
+function ramp(count: number, speed: number): number[] {
+  return Array.from({ length: count }, (_, i) => i * speed);
+}
+
+describe('point filters', () => {
+  it.each(['exponential', 'oneEuro', 'kalman'] as const)('%s passes the first sample through and holds on repeated timestamps', (type) => {
+    const filter = createPointFilter(type, 0.5);
+    expect(filter.type).toBe(type);
+    expect(filter.filter({ x: 0.3, y: 0.6, z: -0.1 }, 0)).toEqual({ x: 0.3, y: 0.6, z: -0.1 });
+
+    const moved = filter.filter({ x: 0.5, y: 0.6, z: -0.1 }, 100);
+    expect(filter.filter({ x: 0.9, y: 0.6, z: -0.1 }, 100)).toEqual(moved);
+
+    // After a reset the next sample starts over
+    filter.reset();
+    expect(filter.filter({ x: 0.9, y: 0.1 }, 200)).toEqual({ x: 0.9, y: 0.1 });
+  });
+
+  it('keeps fields other than the coordinates', () => {
+    const filter = new ExponentialFilter();
+    const point = { x: 0.5, y: 0.5, visibility: 0.8 };
+    expect(filter.filter(point, 0)).toEqual(point);
+    expect(filter.filter({ ...point, x: 0.7 }, FRAME_MS).visibility).toBe(0.8);
+  });
+
+  describe('ExponentialFilter', () => {
+    it('moves by the factor per 30fps frame', () => {
+      expect(run(new ExponentialFilter(0.5), [0, 1, 1])).toEqual([0, 0.5, 0.75]);
+    });
+
+    it('gives the same result whatever the frame rate', () => {
+      const at30 = run(new ExponentialFilter(0.3), [0, 1, 1, 1, 1], FRAME_MS);
+      const at15 = run(new ExponentialFilter(0.3), [0, 1, 1], FRAME_MS * 2);
+      expect(at15[2]).toBeCloseTo(at30[4]);
+    });
+  });
+
+  describe('OneEuroFilter', () => {
+    it('stays put on a steady input', () => {
+      expect(run(new OneEuroFilter(), [0.4, 0.4, 0.4, 0.4])).toEqual([0.4, 0.4, 0.4, 0.4]);
+    });
+
+    it('lags less when beta lets the cutoff rise with speed', () => {
+      const input = ramp(30, 0.01);
+      const lag = (filter: OneEuroFilter) => input[29] - run(filter, input)[29];
+
+      const still = lag(new OneEuroFilter(1, 0));
+      const adaptive = lag(new OneEuroFilter(1, 0.5));
+      expect(adaptive).toBeGreaterThan(0);
+      expect(adaptive).toBeLessThan(still);
+    });
+  });
+
+  describe('KalmanFilter', () => {
+    it('catches up with constant-velocity motion', () => {
+      const input = ramp(90, 0.005);
+      const output = run(new KalmanFilter(), input);
+      expect(output[89]).toBeCloseTo(input[89], 3);
+    });
+
+    it('damps jitter around a still point', () => {
+      const input = Array.from({ length: 60 }, (_, i) => 0.5 + (i % 2 ? 0.01 : -0.01));
+      const output = run(new KalmanFilter(1, 0.0005), input).slice(30);
+      for (const x of output) {
+        expect(Math.abs(x - 0.5)).toBeLessThan(0.005);
+      }
+    });
+
+    it('smooths more as the smoothing factor drops', () => {
+      const input = [0, 0, 0, 1, 1];
+      const loose = createPointFilter('kalman', 0.9);
+      const tight = createPointFilter('kalman', 0.1);
+      expect(run(tight, input)[3]).toBeLessThan(run(loose, input)[3]);
+    });
+  });
+});
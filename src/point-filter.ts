@@ -0,0 +1,223 @@
+/**
+ * Point smoothing filters
+ * All filters run per axis on x, y (and z when present) and use the real
+ * frame timestamps, so smoothing doesn't depend on the camera frame rate
+ */
+
+import { Point2D } from './hand-landmarks';
+
+export type PointFilterType = 'exponential' | 'oneEuro' | 'kalman';
+
+export interface PointFilter {
+  readonly type: PointFilterType;
+  // Returns a filtered copy of the point; timestamp in ms
+  filter<T extends Point2D>(point: T, timestamp: number): T;
+  reset(): void;
+  // 0-1, same sense as the smoothing slider: higher follows the input more closely
+  setSmoothing(factor: number): void;
+}
+
+// Frame interval the exponential factor is calibrated against (30fps camera)
+const REFERENCE_FRAME_MS = 1000 / 30;
+
+const AXES = ['x', 'y', 'z'] as const;
+type Axis = typeof AXES[number];
+
+abstract class AxisFilter<S> implements PointFilter {
+  abstract readonly type: PointFilterType;
+  private states: Partial<Record<Axis, S>> = {};
+  private lastTimestamp: number | null = null;
+
+  filter<T extends Point2D>(point: T, timestamp: number): T {
+    // dt in seconds; a repeated or first timestamp passes the input through
+    const dt = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    const result = { ...point };
+    for (const axis of AXES) {
+      const value = (point as Partial<Record<Axis, number>>)[axis];
+      if (value === undefined) continue;
+
+      const state = this.states[axis];
+      if (state === undefined) {
+        this.states[axis] = this.initialState(value);
+        continue;
+      }
+      (result as unknown as Record<Axis, number>)[axis] = dt > 0 ? this.step(state, value, dt) : this.current(state);
+    }
+    return result;
+  }
+
+  reset(): void {
+    this.states = {};
+    this.lastTimestamp = null;
+  }
+
+  abstract setSmoothing(factor: number): void;
+  protected abstract initialState(value: number): S;
+  protected abstract step(state: S, value: number, dt: number): number;
+  protected abstract current(state: S): number;
+}
+
+/**
+ * Exponential moving average, rescaled for the actual frame interval
+ */
+export class ExponentialFilter extends AxisFilter<{ value: number }> {
+  readonly type = 'exponential';
+  private factor: number;
+
+  constructor(factor = 0.5) {
+    super();
+    this.factor = factor;
+  }
+
+  setSmoothing(factor: number): void {
+    this.factor = factor;
+  }
+
+  protected initialState(value: number) {
+    return { value };
+  }
+
+  protected step(state: { value: number }, value: number, dt: number): number {
+    const alpha = 1 - Math.pow(1 - this.factor, (dt * 1000) / REFERENCE_FRAME_MS);
+    state.value += (value - state.value) * alpha;
+    return state.value;
+  }
+
+  protected current(state: { value: number }): number {
+    return state.value;
+  }
+}
+
+interface OneEuroState {
+  value: number;
+  derivative: number;
+  raw: number;
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012)
+ * Low-pass with a cutoff that rises with speed: steady when still, responsive when moving
+ */
+export class OneEuroFilter extends AxisFilter<OneEuroState> {
+  readonly type = 'oneEuro';
+  // Cutoff at rest (Hz)
+  private minCutoff: number;
+  // How fast the cutoff grows with speed
+  private beta: number;
+  // Cutoff for the speed estimate (Hz)
+  private derivativeCutoff: number;
+
+  constructor(minCutoff = 1.0, beta = 0.5, derivativeCutoff = 1.0) {
+    super();
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.derivativeCutoff = derivativeCutoff;
+  }
+
+  setSmoothing(factor: number): void {
+    this.minCutoff = factor * 5;
+  }
+
+  protected initialState(value: number): OneEuroState {
+    return { value, derivative: 0, raw: value };
+  }
+
+  protected step(state: OneEuroState, value: number, dt: number): number {
+    const derivative = (value - state.raw) / dt;
+    state.derivative += (derivative - state.derivative) * smoothingAlpha(this.derivativeCutoff, dt);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(state.derivative);
+    state.value += (value - state.value) * smoothingAlpha(cutoff, dt);
+    state.raw = value;
+    return state.value;
+  }
+
+  protected current(state: OneEuroState): number {
+    return state.value;
+  }
+}
+
+function smoothingAlpha(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+interface KalmanState {
+  position: number;
+  velocity: number;
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+/**
+ * Constant-velocity Kalman filter
+ */
+export class KalmanFilter extends AxisFilter<KalmanState> {
+  readonly type = 'kalman';
+  // Acceleration noise (how much the velocity may change per second)
+  private processNoise: number;
+  // Variance of the landmark measurements
+  private measurementNoise: number;
+
+  constructor(processNoise = 1.0, measurementNoise = 0.0005) {
+    super();
+    this.processNoise = processNoise;
+    this.measurementNoise = measurementNoise;
+  }
+
+  setSmoothing(factor: number): void {
+    // Trust measurements more as the factor rises
+    this.measurementNoise = Math.pow(1 - factor, 2) * 0.005 + 0.00001;
+  }
+
+  protected initialState(value: number): KalmanState {
+    return { position: value, velocity: 0, p00: 1, p01: 0, p11: 1 };
+  }
+
+  protected step(state: KalmanState, value: number, dt: number): number {
+    // Predict
+    state.position += state.velocity * dt;
+    const q = this.processNoise;
+    const p00 = state.p00 + dt * (2 * state.p01 + dt * state.p11) + (q * Math.pow(dt, 4)) / 4;
+    const p01 = state.p01 + dt * state.p11 + (q * Math.pow(dt, 3)) / 2;
+    const p11 = state.p11 + q * dt * dt;
+
+    // Update
+    const innovation = value - state.position;
+    const s = p00 + this.measurementNoise;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+
+    state.position += k0 * innovation;
+    state.velocity += k1 * innovation;
+    state.p00 = (1 - k0) * p00;
+    state.p01 = (1 - k0) * p01;
+    state.p11 = p11 - k1 * p01;
+
+    return state.position;
+  }
+
+  protected current(state: KalmanState): number {
+    return state.position;
+  }
+}
+
+export function createPointFilter(type: PointFilterType, smoothing: number): PointFilter {
+  let filter: PointFilter;
+  switch (type) {
+    case 'oneEuro':
+      filter = new OneEuroFilter();
+      break;
+    case 'kalman':
+      filter = new KalmanFilter();
+      break;
+    default:
+      filter = new ExponentialFilter();
+  }
+  filter.setSmoothing(smoothing);
+  return filter;
+}
@@ -0,0 +1,367 @@
+/**
+ * Declarative hand pose definitions
+ * A pose is a JSON-serializable set of rules over HAND_LANDMARKS names,
+ * evaluated per hand by PoseRecognizer
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS, HandLandmarkName, Point2D } from './hand-landmarks';
+import { GestureDetection, GestureRecognizer, LandmarkInput, noDetection } from './gesture-recognizer';
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type FingerState = 'extended' | 'curled';
+// Image-space direction as MediaPipe reports it (x is not mirrored)
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+// Bend angle (degrees, 0 = straight) at a joint, measured between its neighbours in the finger chain
+export interface JointAngleRule {
+  joint: HandLandmarkName;
+  min?: number;
+  max?: number;
+}
+
+// Distance between two landmarks, divided by the hand size
+export interface DistanceRule {
+  from: HandLandmarkName;
+  to: HandLandmarkName;
+  // Enter thresholds
+  min?: number;
+  max?: number;
+  // Exit thresholds applied while the pose is already held (default: min/max)
+  // Looser than min/max so landmark jitter near the edge doesn't toggle the pose
+  exitMin?: number;
+  exitMax?: number;
+  // 3 includes z (default), 2 uses the image plane only
+  dimensions?: 2 | 3;
+}
+
+// The from→to vector must point within `tolerance` degrees of `direction`
+export interface OrientationRule {
+  from: HandLandmarkName;
+  to: HandLandmarkName;
+  direction: Direction;
+  // Default 90, i.e. anywhere in the half-plane facing `direction`
+  tolerance?: number;
+}
+
+// Constraints on a single hand
+export interface HandRules {
+  // Reference segment for normalizing distances (2D, default WRIST → MIDDLE_FINGER_MCP)
+  handSize?: { from: HandLandmarkName; to: HandLandmarkName };
+  fingers?: Partial<Record<FingerName, FingerState>>;
+  joints?: JointAngleRule[];
+  distances?: DistanceRule[];
+  orientations?: OrientationRule[];
+}
+
+export interface PoseDefinition extends HandRules {
+  name: string;
+  description?: string;
+  // Landmarks to evaluate when smoothing is on (default smoothed)
+  input?: LandmarkInput;
+  // Restrict to one anatomical hand (MediaPipe label)
+  handedness?: 'Left' | 'Right';
+  // Landmarks averaged to produce the detection's centerPoint
+  center: HandLandmarkName[];
+}
+
+// Landmark chains from the wrist to each fingertip
+export const FINGER_CHAINS: Record<FingerName, HandLandmarkName[]> = {
+  thumb: ['WRIST', 'THUMB_CMC', 'THUMB_MCP', 'THUMB_IP', 'THUMB_TIP'],
+  index: ['WRIST', 'INDEX_FINGER_MCP', 'INDEX_FINGER_PIP', 'INDEX_FINGER_DIP', 'INDEX_FINGER_TIP'],
+  middle: ['WRIST', 'MIDDLE_FINGER_MCP', 'MIDDLE_FINGER_PIP', 'MIDDLE_FINGER_DIP', 'MIDDLE_FINGER_TIP'],
+  ring: ['WRIST', 'RING_FINGER_MCP', 'RING_FINGER_PIP', 'RING_FINGER_DIP', 'RING_FINGER_TIP'],
+  pinky: ['WRIST', 'PINKY_MCP', 'PINKY_PIP', 'PINKY_DIP', 'PINKY_TIP'],
+};
+
+// A finger counts as extended when the summed bend of its two outer joints stays below this (degrees)
+export const EXTENDED_MAX_BEND = 50;
+// ...and as curled when the summed bend exceeds this
+export const CURLED_MIN_BEND = 90;
+
+const DIRECTION_VECTORS: Record<Direction, Point2D> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const DEFAULT_HAND_SIZE = { from: 'WRIST', to: 'MIDDLE_FINGER_MCP' } as const;
+
+// Joints with a neighbour on both sides, mapped to [previous, next]
+const JOINT_NEIGHBOURS = new Map<HandLandmarkName, [HandLandmarkName, HandLandmarkName]>();
+for (const chain of Object.values(FINGER_CHAINS)) {
+  for (let i = 1; i < chain.length - 1; i++) {
+    JOINT_NEIGHBOURS.set(chain[i], [chain[i - 1], chain[i + 1]]);
+  }
+}
+
+export function landmarkDistance(a: NormalizedLandmark, b: NormalizedLandmark, dimensions: 2 | 3 = 3): number {
+  const dz = dimensions === 3 ? a.z - b.z : 0;
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(dz, 2));
+}
+
+/**
+ * Bend angle at `joint` in degrees: 0 when the finger is straight through it
+ */
+export function jointBend(landmarks: NormalizedLandmark[], joint: HandLandmarkName): number {
+  const neighbours = JOINT_NEIGHBOURS.get(joint);
+  if (!neighbours) {
+    throw new Error(`Landmark ${joint} is not a joint with two neighbours`);
+  }
+
+  const center = landmarks[HAND_LANDMARKS[joint]];
+  const prev = landmarks[HAND_LANDMARKS[neighbours[0]]];
+  const next = landmarks[HAND_LANDMARKS[neighbours[1]]];
+
+  const ax = prev.x - center.x, ay = prev.y - center.y, az = prev.z - center.z;
+  const bx = next.x - center.x, by = next.y - center.y, bz = next.z - center.z;
+  const lengths = Math.sqrt(ax * ax + ay * ay + az * az) * Math.sqrt(bx * bx + by * by + bz * bz);
+  if (lengths === 0) return 0;
+
+  const cos = Math.min(1, Math.max(-1, (ax * bx + ay * by + az * bz) / lengths));
+  return 180 - (Math.acos(cos) * 180) / Math.PI;
+}
+
+/**
+ * Summed bend of the two outermost joints (PIP + DIP, or MCP + IP for the thumb)
+ */
+export function fingerBend(landmarks: NormalizedLandmark[], finger: FingerName): number {
+  const chain = FINGER_CHAINS[finger];
+  return jointBend(landmarks, chain[2]) + jointBend(landmarks, chain[3]);
+}
+
+export function fingerState(landmarks: NormalizedLandmark[], finger: FingerName): FingerState | null {
+  const bend = fingerBend(landmarks, finger);
+  if (bend < EXTENDED_MAX_BEND) return 'extended';
+  if (bend > CURLED_MIN_BEND) return 'curled';
+  return null;
+}
+
+function matchesOrientation(landmarks: NormalizedLandmark[], rule: OrientationRule): boolean {
+  const from = landmarks[HAND_LANDMARKS[rule.from]];
+  const to = landmarks[HAND_LANDMARKS[rule.to]];
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return false;
+
+  const target = DIRECTION_VECTORS[rule.direction];
+  const cos = Math.min(1, Math.max(-1, (dx * target.x + dy * target.y) / length));
+  const angle = (Math.acos(cos) * 180) / Math.PI;
+  return angle < (rule.tolerance ?? 90);
+}
+
+/**
+ * Evaluate hand rules against one hand's landmarks
+ * Returns the confidence (0-1) when every rule passes, or null otherwise.
+ * Confidence is the smallest margin among distance rules with a `max`
+ * (1 - distance / max), or 1 if there are none.
+ * `held` switches distance rules to their exit thresholds.
+ */
+export function evaluatePose(definition: HandRules, landmarks: NormalizedLandmark[], held = false): number | null {
+  if (landmarks.length < 21) return null;
+
+  const sizeRef = definition.handSize ?? DEFAULT_HAND_SIZE;
+  const handSize = landmarkDistance(
+    landmarks[HAND_LANDMARKS[sizeRef.from]],
+    landmarks[HAND_LANDMARKS[sizeRef.to]],
+    2
+  );
+  if (handSize === 0) return null;
+
+  for (const [finger, state] of Object.entries(definition.fingers ?? {})) {
+    if (fingerState(landmarks, finger as FingerName) !== state) return null;
+  }
+
+  for (const rule of definition.joints ?? []) {
+    const bend = jointBend(landmarks, rule.joint);
+    if (rule.min !== undefined && bend < rule.min) return null;
+    if (rule.max !== undefined && bend > rule.max) return null;
+  }
+
+  for (const rule of definition.orientations ?? []) {
+    if (!matchesOrientation(landmarks, rule)) return null;
+  }
+
+  let confidence = 1;
+  for (const rule of definition.distances ?? []) {
+    const distance = landmarkDistance(
+      landmarks[HAND_LANDMARKS[rule.from]],
+      landmarks[HAND_LANDMARKS[rule.to]],
+      rule.dimensions ?? 3
+    ) / handSize;
+
+    const min = held ? rule.exitMin ?? rule.min : rule.min;
+    const max = held ? rule.exitMax ?? rule.max : rule.max;
+
+    if (min !== undefined && distance < min) return null;
+    if (max !== undefined && distance >= max) return null;
+    if (rule.max !== undefined) {
+      confidence = Math.min(confidence, Math.max(0, 1 - distance / rule.max));
+    }
+  }
+
+  return confidence;
+}
+
+export function poseCenter(definition: PoseDefinition, landmarks: NormalizedLandmark[]): Point2D {
+  let x = 0;
+  let y = 0;
+  for (const name of definition.center) {
+    x += landmarks[HAND_LANDMARKS[name]].x;
+    y += landmarks[HAND_LANDMARKS[name]].y;
+  }
+  return { x: x / definition.center.length, y: y / definition.center.length };
+}
+
+/**
+ * Turns a pose definition into a gesture recognizer
+ * The first hand that satisfies the pose wins
+ */
+export class PoseRecognizer implements GestureRecognizer {
+  readonly name: string;
+  readonly definition: PoseDefinition;
+  readonly input: LandmarkInput;
+  // Hand that matched on the previous frame, evaluated with exit thresholds:
+  // its tracked ID, so the latch follows the hand when MediaPipe reorders them,
+  // or its index when the caller has no IDs
+  private heldHand: number | null = null;
+
+  constructor(definition: PoseDefinition) {
+    this.definition = parsePoseDefinition(definition);
+    this.name = definition.name;
+    this.input = definition.input ?? 'smoothed';
+  }
+
+  recognize(detectionResult: HandLandmarkerResult, handIds?: number[]): GestureDetection {
+    const heldHand = this.heldHand;
+    this.heldHand = null;
+
+    if (!detectionResult.landmarks || detectionResult.landmarks.length === 0) {
+      return noDetection(this.name);
+    }
+
+    for (let i = 0; i < detectionResult.landmarks.length; i++) {
+      const landmarks = detectionResult.landmarks[i];
+      if (!landmarks) continue;
+
+      if (this.definition.handedness) {
+        const label = detectionResult.handednesses[i]?.[0]?.categoryName;
+        if (label !== this.definition.handedness) continue;
+      }
+
+      const hand = handIds?.[i] ?? i;
+      const confidence = evaluatePose(this.definition, landmarks, hand === heldHand);
+      if (confidence === null) continue;
+
+      this.heldHand = hand;
+      return {
+        name: this.name,
+        detected: true,
+        confidence,
+        centerPoint: poseCenter(this.definition, landmarks),
+        handIndex: i,
+      };
+    }
+
+    return noDetection(this.name);
+  }
+}
+
+export function isLandmarkName(value: unknown): value is HandLandmarkName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HAND_LANDMARKS, value);
+}
+
+export function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value));
+}
+
+type Fail = (message: string) => never;
+
+/**
+ * Check the HandRules fields of an untrusted object
+ */
+export function validateHandRules(def: Record<string, unknown>, fail: Fail): void {
+  if (def.handSize !== undefined) {
+    const handSize = def.handSize as Record<string, unknown>;
+    if (!isLandmarkName(handSize?.from) || !isLandmarkName(handSize?.to)) {
+      fail('handSize needs landmark names in from/to');
+    }
+  }
+
+  if (def.fingers !== undefined) {
+    if (typeof def.fingers !== 'object' || def.fingers === null) fail('fingers must be an object');
+    for (const [finger, state] of Object.entries(def.fingers as object)) {
+      if (!(finger in FINGER_CHAINS)) fail(`unknown finger "${finger}"`);
+      if (state !== 'extended' && state !== 'curled') fail(`finger "${finger}" must be "extended" or "curled"`);
+    }
+  }
+
+  const rules = (key: string): Record<string, unknown>[] => {
+    const list = def[key];
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) return fail(`${key} must be an array`);
+    return list as Record<string, unknown>[];
+  };
+
+  for (const rule of rules('joints')) {
+    if (!isLandmarkName(rule.joint) || !JOINT_NEIGHBOURS.has(rule.joint)) {
+      fail(`joints: "${String(rule.joint)}" is not a bendable joint`);
+    }
+    if (!isOptionalNumber(rule.min) || !isOptionalNumber(rule.max)) fail('joints: min/max must be numbers');
+  }
+
+  for (const rule of rules('distances')) {
+    if (!isLandmarkName(rule.from) || !isLandmarkName(rule.to)) fail('distances: from/to must be landmark names');
+    if (!isOptionalNumber(rule.min) || !isOptionalNumber(rule.max)) fail('distances: min/max must be numbers');
+    if (!isOptionalNumber(rule.exitMin) || !isOptionalNumber(rule.exitMax)) {
+      fail('distances: exitMin/exitMax must be numbers');
+    }
+    if (rule.dimensions !== undefined && rule.dimensions !== 2 && rule.dimensions !== 3) {
+      fail('distances: dimensions must be 2 or 3');
+    }
+  }
+
+  for (const rule of rules('orientations')) {
+    if (!isLandmarkName(rule.from) || !isLandmarkName(rule.to)) fail('orientations: from/to must be landmark names');
+    if (typeof rule.direction !== 'string' || !(rule.direction in DIRECTION_VECTORS)) {
+      fail(`orientations: unknown direction "${String(rule.direction)}"`);
+    }
+    if (!isOptionalNumber(rule.tolerance)) fail('orientations: tolerance must be a number');
+  }
+}
+
+export function definitionFailure(value: unknown, kind: string): Fail {
+  return (message: string): never => {
+    const name = (value as { name?: unknown } | null)?.name;
+    throw new Error(`Invalid ${kind}${typeof name === 'string' ? ` "${name}"` : ''}: ${message}`);
+  };
+}
+
+/**
+ * Validate untrusted JSON as a pose definition
+ * Throws with a message naming the offending field
+ */
+export function parsePoseDefinition(value: unknown): PoseDefinition {
+  const fail = definitionFailure(value, 'pose definition');
+
+  if (typeof value !== 'object' || value === null) fail('expected an object');
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.name !== 'string' || def.name.length === 0) fail('name must be a non-empty string');
+  if (def.input !== undefined && def.input !== 'raw' && def.input !== 'smoothed') {
+    fail('input must be "raw" or "smoothed"');
+  }
+  if (def.handedness !== undefined && def.handedness !== 'Left' && def.handedness !== 'Right') {
+    fail('handedness must be "Left" or "Right"');
+  }
+
+  validateHandRules(def, fail);
+
+  if (!Array.isArray(def.center) || def.center.length === 0 || !def.center.every(isLandmarkName)) {
+    fail('center must be a non-empty array of landmark names');
+  }
+
+  return def as unknown as PoseDefinition;
+}
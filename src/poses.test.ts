@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { recognizeGestures } from './gesture-recognizer';
+import { MURYO_KUSHO, createBuiltinRecognizers } from './poses';
+import { HAND_FIXTURES } from './fixtures/hands';
+
+describe('built-in poses against the fixture library', () => {
+  for (const fixture of HAND_FIXTURES) {
+    describe(fixture.name, () => {
+      const gestures = recognizeGestures(createBuiltinRecognizers(), fixture.result);
+
+      it('detects exactly the expected gestures', () => {
+        const detected = Object.values(gestures)
+          .filter((detection) => detection.detected)
+          .map((detection) => detection.name)
+          .sort();
+        expect(detected).toEqual([...fixture.detected].sort());
+      });
+
+      it('reports confidence and centerPoint consistently', () => {
+        for (const detection of Object.values(gestures)) {
+          if (detection.detected) {
+            expect(detection.confidence).toBeGreaterThan(0);
+            expect(detection.confidence).toBeLessThanOrEqual(1);
+            expect(detection.centerPoint).not.toBeNull();
+          } else {
+            expect(detection.confidence).toBe(0);
+            expect(detection.centerPoint).toBeNull();
+          }
+        }
+
+        for (const [name, expected] of Object.entries(fixture.expected ?? {})) {
+          const detection = gestures[name];
+          if (expected.minConfidence !== undefined) {
+            expect(detection.confidence).toBeGreaterThanOrEqual(expected.minConfidence);
+          }
+          if (expected.maxConfidence !== undefined) {
+            expect(detection.confidence).toBeLessThanOrEqual(expected.maxConfidence);
+          }
+          if (expected.centerPoint) {
+            expect(detection.centerPoint?.x).toBeCloseTo(expected.centerPoint.x, 2);
+            expect(detection.centerPoint?.y).toBeCloseTo(expected.centerPoint.y, 2);
+          }
+        }
+      });
+    });
+  }
+
+  it('keeps near misses only while the pose is already held', () => {
+    const seal = HAND_FIXTURES.find((fixture) => fixture.name === 'muryo-kusho')!;
+    for (const fixture of HAND_FIXTURES.filter((candidate) => candidate.heldOnly)) {
+      const recognizers = createBuiltinRecognizers();
+      recognizeGestures(recognizers, seal.result);
+      const held = recognizeGestures(recognizers, fixture.result);
+      for (const name of fixture.heldOnly!) {
+        expect(held[name].detected, `${fixture.name} keeps ${name}`).toBe(true);
+      }
+    }
+  });
+
+  it('keeps the exit threshold on the held hand when the hands are reordered', () => {
+    const fixture = (name: string) => HAND_FIXTURES.find((candidate) => candidate.name === name)!.result;
+    const hands = (...results: HandLandmarkerResult[]): HandLandmarkerResult => ({
+      landmarks: results.flatMap((result) => result.landmarks),
+      worldLandmarks: [],
+      handedness: results.flatMap((result) => result.handedness),
+      handednesses: results.flatMap((result) => result.handednesses),
+    });
+    const sealFrame = hands(fixture('muryo-kusho'), fixture('open-palm'));
+    // The sealing hand loosens into a near miss and MediaPipe lists it second
+    const swappedFrame = hands(fixture('open-palm'), fixture('near-miss-fingers-apart'));
+
+    const tracked = createBuiltinRecognizers();
+    recognizeGestures(tracked, sealFrame, null, [7, 3]);
+    expect(recognizeGestures(tracked, swappedFrame, null, [3, 7])[MURYO_KUSHO].detected).toBe(true);
+
+    // Without IDs the latch stays on the first slot and the seal drops
+    const untracked = createBuiltinRecognizers();
+    recognizeGestures(untracked, sealFrame);
+    expect(recognizeGestures(untracked, swappedFrame)[MURYO_KUSHO].detected).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Built-in hand poses
+ * Every JSON file under ./poses is a PoseDefinition, and every one under
+ * ./poses/two-hand is a TwoHandPoseDefinition. All are registered on
+ * HandTracker automatically - adding a seal needs no TypeScript changes.
+ * Seal chains (GestureSequenceDefinition) live under ./poses/sequences
+ */
+
+import { GestureRecognizer } from './gesture-recognizer';
+import { PoseDefinition, PoseRecognizer, parsePoseDefinition } from './pose-definition';
+import { TwoHandPoseDefinition, TwoHandPoseRecognizer, parseTwoHandPoseDefinition } from './two-hand-analysis';
+import { GestureSequenceDefinition, parseGestureSequenceDefinition } from './gesture-sequence';
+
+export const MURYO_KUSHO = 'muryoKusho';
+export const GASSHO = 'gassho';
+export const PEACE_SIGN = 'peaceSign';
+
+const poseModules = import.meta.glob<unknown>('./poses/*.json', { eager: true, import: 'default' });
+
+export const BUILTIN_POSES: PoseDefinition[] = Object.keys(poseModules)
+  .sort()
+  .map((path) => parsePoseDefinition(poseModules[path]));
+
+const twoHandPoseModules = import.meta.glob<unknown>('./poses/two-hand/*.json', { eager: true, import: 'default' });
+
+export const BUILTIN_TWO_HAND_POSES: TwoHandPoseDefinition[] = Object.keys(twoHandPoseModules)
+  .sort()
+  .map((path) => parseTwoHandPoseDefinition(twoHandPoseModules[path]));
+
+const sequenceModules = import.meta.glob<unknown>('./poses/sequences/*.json', { eager: true, import: 'default' });
+
+export const BUILTIN_SEQUENCES: GestureSequenceDefinition[] = Object.keys(sequenceModules)
+  .sort()
+  .map((path) => parseGestureSequenceDefinition(sequenceModules[path]));
+
+/**
+ * Fresh recognizers for every built-in pose (each keeps its own hysteresis state)
+ */
+export function createBuiltinRecognizers(): GestureRecognizer[] {
+  return [
+    ...BUILTIN_POSES.map((pose) => new PoseRecognizer(pose)),
+    ...BUILTIN_TWO_HAND_POSES.map((pose) => new TwoHandPoseRecognizer(pose)),
+  ];
+}
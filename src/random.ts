@@ -0,0 +1,25 @@
+/**
+ * Seedable random numbers
+ * Same interface as Math.random, so code can take either
+ */
+
+// Uniform in [0, 1)
+export type Random = () => number;
+
+/**
+ * Small, fast PRNG (mulberry32): the same seed always gives the same sequence
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomIn(random: Random, [min, max]: [number, number]): number {
+  return min + random() * (max - min);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayHandTracker } from './replay-hand-tracker';
+import { parseRecording, serializeRecording } from './landmark-recording';
+import { MURYO_KUSHO } from './poses';
+import formAndRelease from './fixtures/recordings/muryo-kusho-form-and-release.ndjson?raw';
+
+// 40 synthetic frames at 50ms, captured with LandmarkRecorder: the index finger
+// leans onto the middle finger (frames 0-9), holds the seal (10-29), then
+// moves away again (30-39)
+const recording = parseRecording(formAndRelease);
+
+function playAll(tracker: ReplayHandTracker) {
+  const results = [];
+  for (const frame of recording.frames) {
+    results.push(tracker.detect(null, frame.timestamp));
+  }
+  return results;
+}
+
+describe('ReplayHandTracker', () => {
+  it('round-trips the recording format', () => {
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+    expect(recording.frames).toHaveLength(40);
+  });
+
+  it('emits every recorded frame once, then caches until the next one is due', () => {
+    const tracker = new ReplayHandTracker(recording, { loop: false });
+    expect(tracker.detect(null, 0).isNewFrame).toBe(true);
+    expect(tracker.detect(null, 20).isNewFrame).toBe(false);
+    expect(tracker.detect(null, 50).isNewFrame).toBe(true);
+  });
+
+  it('detects the seal while it is held, with hysteresis on the way out', () => {
+    const results = playAll(new ReplayHandTracker(recording, { loop: false }));
+    const detected = results.map((result) => result.gestures[MURYO_KUSHO].detected);
+
+    expect(detected.slice(0, 5).some(Boolean)).toBe(false);
+    expect(detected.slice(10, 30).every(Boolean)).toBe(true);
+    expect(detected.slice(38).some(Boolean)).toBe(false);
+
+    // Frames 35-37 lean less than frame 4, which could not enter the seal,
+    // but the exit threshold keeps it
+    expect(detected.slice(35, 38).every(Boolean)).toBe(true);
+
+    for (const result of results.slice(10, 30)) {
+      const centerPoint = result.gestures[MURYO_KUSHO].centerPoint!;
+      expect(centerPoint.x).toBeCloseTo(0.498, 2);
+      expect(centerPoint.y).toBeCloseTo(0.502, 2);
+    }
+  });
+
+  it('keeps one hand identity throughout and labels it as recorded', () => {
+    const results = playAll(new ReplayHandTracker(recording, { loop: false }));
+    const ids = new Set(results.flatMap((result) => result.hands.map((hand) => hand.id)));
+    expect(ids.size).toBe(1);
+    expect(results.every((result) => result.rightIndexFingerTip !== null)).toBe(true);
+  });
+
+  it('starts over with fresh identities when looping', () => {
+    const tracker = new ReplayHandTracker(recording, { loop: true });
+    const first = playAll(tracker);
+    const duration = recording.frames[recording.frames.length - 1].timestamp;
+    const looped = tracker.detect(null, duration + 100);
+    expect(looped.isNewFrame).toBe(true);
+    expect(looped.hands[0].id).not.toBe(first[0].hands[0].id);
+    expect(tracker.isFinished()).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Replay hand tracker
+ * Plays a landmark recording back through the same pipeline as HandTracker,
+ * so the render loop, effects and gesture logic run without a camera or the model
+ */
+
+import { HandTracker, HandTrackingResult } from './hand-tracker';
+import { LandmarkRecording } from './landmark-recording';
+import { InputFrame } from './input-source';
+
+export interface ReplayOptions {
+  // Start over after the last frame
+  loop: boolean;
+  // Playback rate (1 = recorded speed)
+  speed: number;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  loop: true,
+  speed: 1,
+};
+
+export class ReplayHandTracker extends HandTracker {
+  private recording: LandmarkRecording;
+  private replayOptions: ReplayOptions;
+  private startTimestamp: number | null = null;
+  private frameIndex = -1;
+
+  constructor(recording: LandmarkRecording, options: Partial<ReplayOptions> = {}) {
+    super();
+    this.recording = recording;
+    this.replayOptions = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+  }
+
+  // Nothing to load: the landmarks are already in the recording
+  async initialize(): Promise<void> {}
+
+  /**
+   * Same contract as HandTracker.detect(); the recorded frame due at this
+   * timestamp is returned once as a new frame, then cached until the next one
+   * Frames that fall between two calls are skipped, as a live camera would
+   */
+  detect(_frame: InputFrame | null, timestamp: number): HandTrackingResult {
+    const frames = this.recording.frames;
+    if (frames.length === 0) return this.cachedResult();
+
+    if (this.startTimestamp === null) this.startTimestamp = timestamp;
+    let elapsed = (timestamp - this.startTimestamp) * this.replayOptions.speed;
+
+    const duration = frames[frames.length - 1].timestamp;
+    if (this.replayOptions.loop && elapsed > duration && this.frameIndex === frames.length - 1) {
+      this.restart(timestamp);
+      elapsed = 0;
+    }
+
+    const index = this.frameAt(elapsed);
+    if (index === this.frameIndex) return this.cachedResult();
+
+    this.frameIndex = index;
+    return this.processFrame(frames[index].result, timestamp);
+  }
+
+  isFinished(): boolean {
+    return !this.replayOptions.loop && this.frameIndex === this.recording.frames.length - 1;
+  }
+
+  private restart(timestamp: number): void {
+    this.startTimestamp = timestamp;
+    this.frameIndex = -1;
+    this.resetTracking();
+  }
+
+  /**
+   * Last frame recorded at or before the elapsed time (the first frame before it starts)
+   */
+  private frameAt(elapsed: number): number {
+    const frames = this.recording.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (frames[middle].timestamp <= elapsed) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  }
+}
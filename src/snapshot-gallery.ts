@@ -0,0 +1,94 @@
+/**
+ * Snapshot gallery
+ * Captured PNGs and their thumbnails, kept in IndexedDB so they survive reloads
+ */
+
+export interface Snapshot {
+  id: number;
+  // Date.now() at capture
+  createdAt: number;
+  image: Blob;
+  thumbnail: Blob;
+}
+
+const DB_NAME = 'finger-camera';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+// Thumbnail width (px); the height follows the image's aspect ratio
+const THUMBNAIL_WIDTH = 160;
+
+export class SnapshotGallery {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Store a captured image; resolves with the saved entry
+   */
+  async add(image: Blob): Promise<Snapshot> {
+    const entry: Omit<Snapshot, 'id'> = {
+      createdAt: Date.now(),
+      image,
+      thumbnail: await createThumbnail(image),
+    };
+    const store = await this.store('readwrite');
+    const id = await requestResult(store.add(entry));
+    return { ...entry, id: id as number };
+  }
+
+  /**
+   * Every snapshot, newest first
+   */
+  async list(): Promise<Snapshot[]> {
+    const store = await this.store('readonly');
+    const snapshots = await requestResult(store.getAll() as IDBRequest<Snapshot[]>);
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async delete(id: number): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestResult(store.delete(id));
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.db ??= openDatabase();
+    const db = await this.db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+  };
+  return requestResult(request);
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+async function createThumbnail(image: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.max(1, Math.round((bitmap.height / bitmap.width) * THUMBNAIL_WIDTH));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvasToBlob(canvas, 'image/jpeg', 0.8);
+}
+
+/**
+ * canvas.toBlob as a promise
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the canvas'))),
+      type,
+      quality
+    );
+  });
+}
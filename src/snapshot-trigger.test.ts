@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { SnapshotTrigger } from './snapshot-trigger';
+import { GestureDetection, noDetection } from './gesture-recognizer';
+
+const FRAME_MS = 50;
+const GESTURE = 'peace';
+
+const seen: GestureDetection = { name: GESTURE, detected: true, confidence: 1, centerPoint: { x: 0.5, y: 0.5 }, handIndex: 0 };
+const missed = noDetection(GESTURE);
+
+/**
+ * Feed `count` frames of one detection starting at `start`; returns the frames that armed the countdown
+ */
+function feed(trigger: SnapshotTrigger, detection: GestureDetection, count: number, start = 0): number[] {
+  const armed: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const now = start + i * FRAME_MS;
+    if (trigger.update(detection, now)) armed.push(now);
+  }
+  return armed;
+}
+
+describe('SnapshotTrigger', () => {
+  it('arms once the gesture has been held for holdDuration', () => {
+    const trigger = new SnapshotTrigger({ holdDuration: 400, countdown: 1000 });
+    feed(trigger, seen, 5);
+    expect(trigger.getHoldProgress()).toBe(0.5);
+    expect(trigger.getCountdownRemaining(200)).toBeNull();
+
+    expect(feed(trigger, seen, 5, 250)).toEqual([400]);
+    expect(trigger.getHoldProgress()).toBe(0);
+    expect(trigger.getCountdownRemaining(650)).toBe(750);
+  });
+
+  it('is due exactly once when the countdown runs out, even with the hand down', () => {
+    const trigger = new SnapshotTrigger({ holdDuration: 400, countdown: 1000 });
+    feed(trigger, seen, 9);
+    feed(trigger, missed, 10, 450);
+
+    expect(trigger.takeDue(1399)).toBe(false);
+    expect(trigger.takeDue(1400)).toBe(true);
+    expect(trigger.takeDue(1416)).toBe(false);
+    expect(trigger.getCountdownRemaining(1416)).toBeNull();
+  });
+
+  it('needs the gesture released before it arms again', () => {
+    const trigger = new SnapshotTrigger({ holdDuration: 400, countdown: 1000 });
+    expect(feed(trigger, seen, 9)).toEqual([400]);
+    expect(feed(trigger, seen, 30, 450)).toEqual([]);
+    expect(trigger.takeDue(1950)).toBe(true);
+
+    // Still held after the shot: nothing new
+    expect(feed(trigger, seen, 20, 1950)).toEqual([]);
+
+    feed(trigger, missed, 5, 2950);
+    expect(feed(trigger, seen, 9, 3200)).toEqual([3550]);
+  });
+
+  it('drops a half-held gesture instead of letting it carry over', () => {
+    const trigger = new SnapshotTrigger({ holdDuration: 400, countdown: 1000 });
+    feed(trigger, seen, 6);
+    feed(trigger, missed, 5, 300);
+    expect(trigger.getHoldProgress()).toBe(0);
+  });
+
+  it('cancels a running countdown on reset', () => {
+    const trigger = new SnapshotTrigger({ holdDuration: 400, countdown: 1000 });
+    feed(trigger, seen, 9);
+    trigger.reset();
+
+    expect(trigger.getCountdownRemaining(600)).toBeNull();
+    expect(trigger.takeDue(2000)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Gesture-triggered snapshot
+ * Holding the capture gesture charges a ChargeTracker; once full, a countdown
+ * runs (the hand may drop meanwhile) and the shot is due when it reaches zero.
+ * The gesture has to be released before it can arm the next shot.
+ */
+
+import { ChargeTracker } from './charge-tracker';
+import { GestureDetection } from './gesture-recognizer';
+
+export interface SnapshotTriggerOptions {
+  // How long the gesture must be held to start the countdown (ms)
+  holdDuration: number;
+  // Countdown from arming to capture (ms)
+  countdown: number;
+}
+
+export const DEFAULT_SNAPSHOT_TRIGGER_OPTIONS: SnapshotTriggerOptions = {
+  holdDuration: 1000,
+  countdown: 3000,
+};
+
+export class SnapshotTrigger {
+  private options: SnapshotTriggerOptions;
+  private charge: ChargeTracker;
+  private armedAt: number | null = null;
+
+  constructor(options: Partial<SnapshotTriggerOptions> = {}) {
+    this.options = { ...DEFAULT_SNAPSHOT_TRIGGER_OPTIONS, ...options };
+    // A half-held gesture shouldn't carry over to the next attempt
+    this.charge = new ChargeTracker({ holdDuration: this.options.holdDuration, decayRate: Infinity });
+  }
+
+  /**
+   * Feed one frame of the capture gesture; returns true when this frame starts the countdown
+   */
+  update(detection: GestureDetection, now: number): boolean {
+    this.charge.update(detection, now);
+    if (this.armedAt !== null || !this.charge.isCharged()) return false;
+
+    this.charge.markTriggered();
+    this.armedAt = now;
+    return true;
+  }
+
+  /**
+   * Whether the countdown has just run out; call every rendered frame so the
+   * shot isn't held back by a slow detection rate
+   */
+  takeDue(now: number): boolean {
+    if (this.armedAt === null || now - this.armedAt < this.options.countdown) return false;
+    this.armedAt = null;
+    return true;
+  }
+
+  /**
+   * Hold progress toward arming (0-1)
+   */
+  getHoldProgress(): number {
+    return this.armedAt === null && !this.charge.isTriggered() ? this.charge.getProgress() : 0;
+  }
+
+  /**
+   * Time left until the capture (ms), null when no countdown is running
+   */
+  getCountdownRemaining(now: number): number | null {
+    if (this.armedAt === null) return null;
+    return Math.max(0, this.options.countdown - (now - this.armedAt));
+  }
+
+  reset(): void {
+    this.charge.reset();
+    this.armedAt = null;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Built-in domain themes
+ * Every JSON file under ./themes is a DomainTheme, keyed by its name
+ */
+
+import { DomainTheme, parseDomainTheme } from './domain-theme';
+
+export const MURYO_KUSHO_THEME = 'muryoKusho';
+export const FUKUMA_MIZUSHI_THEME = 'fukumaMizushi';
+
+const themeModules = import.meta.glob<unknown>('./themes/*.json', { eager: true, import: 'default' });
+
+export const BUILTIN_THEMES: Record<string, DomainTheme> = Object.fromEntries(
+  Object.keys(themeModules)
+    .sort()
+    .map((path) => {
+      const theme = parseDomainTheme(themeModules[path]);
+      return [theme.name, theme];
+    })
+);
+
+export const DEFAULT_THEME = BUILTIN_THEMES[MURYO_KUSHO_THEME];
+
+/**
+ * Theme a gesture or seal chain expands, the default one when no theme claims it
+ */
+export function themeForGesture(gesture: string): DomainTheme {
+  return Object.values(BUILTIN_THEMES).find((theme) => theme.gestures.includes(gesture)) ?? DEFAULT_THEME;
+}
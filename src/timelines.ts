@@ -0,0 +1,19 @@
+/**
+ * Built-in effect timelines
+ * Every JSON file under ./timelines is an EffectTimeline, keyed by its name
+ */
+
+import { EffectTimeline, parseEffectTimeline } from './effect-timeline';
+
+export const DOMAIN_EXPANSION = 'domainExpansion';
+
+const timelineModules = import.meta.glob<unknown>('./timelines/*.json', { eager: true, import: 'default' });
+
+export const BUILTIN_TIMELINES: Record<string, EffectTimeline> = Object.fromEntries(
+  Object.keys(timelineModules)
+    .sort()
+    .map((path) => {
+      const timeline = parseEffectTimeline(timelineModules[path]);
+      return [timeline.name, timeline];
+    })
+);
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Point2D } from './hand-landmarks';
+import {
+  TwoHandPoseDefinition,
+  TwoHandPoseRecognizer,
+  analyzeTwoHands,
+  evaluateTwoHandPose,
+  pairHands,
+  palmCentroid,
+  palmNormal,
+  parseTwoHandPoseDefinition,
+} from './two-hand-analysis';
+import { landmarkerResult } from './fixtures/synthetic-hand';
+
+// Flat right hand, palm to the camera and fingers up, in hand units:
+// wrist at the origin, middle-finger MCP one unit above it
+const RIGHT_HAND: [number, number][] = [
+  [0, 0],
+  [0.3, -0.2], [0.5, -0.4], [0.65, -0.6], [0.8, -0.75],
+  [0.3, -0.95], [0.3, -1.4], [0.3, -1.7], [0.3, -1.95],
+  [0, -1], [0, -1.5], [0, -1.8], [0, -2.05],
+  [-0.28, -0.95], [-0.28, -1.4], [-0.28, -1.7], [-0.28, -1.95],
+  [-0.52, -0.85], [-0.52, -1.2], [-0.52, -1.42], [-0.52, -1.62],
+];
+
+const SIZE = 0.1;
+
+/**
+ * RIGHT_HAND with its wrist at `wrist`, flipped horizontally for `mirrored`
+ */
+function hand(wrist: Point2D, mirrored = false): NormalizedLandmark[] {
+  return RIGHT_HAND.map(([x, y]) => ({
+    x: wrist.x + (mirrored ? -x : x) * SIZE,
+    y: wrist.y + y * SIZE,
+    z: 0,
+    visibility: 0,
+  }));
+}
+
+describe('pairHands', () => {
+  it('pairs by handedness label, whatever the order', () => {
+    const pair = pairHands(landmarkerResult([
+      { landmarks: hand({ x: 0.7, y: 0.7 }), handedness: 'Left' },
+      { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+    ]));
+    expect(pair?.left.index).toBe(0);
+    expect(pair?.right.index).toBe(1);
+  });
+
+  it('falls back to image position when both hands carry the same label', () => {
+    const pair = pairHands(landmarkerResult([
+      { landmarks: hand({ x: 0.7, y: 0.7 }), handedness: 'Right' },
+      { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+    ]));
+    // The user's right hand is on the left of the unmirrored image
+    expect(pair?.right.index).toBe(1);
+    expect(pair?.left.index).toBe(0);
+  });
+
+  it('needs two hands', () => {
+    expect(pairHands(landmarkerResult([{ landmarks: hand({ x: 0.5, y: 0.7 }), handedness: 'Right' }]))).toBeNull();
+  });
+});
+
+describe('palmNormal', () => {
+  it('points toward the camera for either hand showing its palm', () => {
+    expect(palmNormal(hand({ x: 0.3, y: 0.7 }), 'Right').z).toBeCloseTo(-1);
+    expect(palmNormal(hand({ x: 0.7, y: 0.7 }, true), 'Left').z).toBeCloseTo(-1);
+  });
+});
+
+describe('analyzeTwoHands', () => {
+  it('measures distances in mean hand sizes', () => {
+    const right = hand({ x: 0.3, y: 0.7 });
+    const left = hand({ x: 0.5, y: 0.7 });
+    const relations = analyzeTwoHands(landmarkerResult([
+      { landmarks: right, handedness: 'Right' },
+      { landmarks: left, handedness: 'Left' },
+    ]))!;
+
+    // Same hand shape moved two hand sizes to the side
+    expect(relations.wristDistance).toBeCloseTo(2);
+    for (const distance of Object.values(relations.tipDistances)) {
+      expect(distance).toBeCloseTo(2);
+    }
+    expect(relations.palmOverlap).toBe(0);
+    expect(relations.center.x).toBeCloseTo((palmCentroid(right).x + palmCentroid(left).x) / 2);
+    expect(relations.center.y).toBeCloseTo(palmCentroid(right).y);
+  });
+
+  it('measures the overlap relative to the smaller palm', () => {
+    // Palms are 0.82 hand units wide; shift by half of that
+    const relations = analyzeTwoHands(landmarkerResult([
+      { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+      { landmarks: hand({ x: 0.3 + 0.41 * SIZE, y: 0.7 }), handedness: 'Left' },
+    ]))!;
+    expect(relations.palmOverlap).toBeCloseTo(0.5);
+  });
+
+  it('sees palms pressed together as facing each other', () => {
+    // The left hand is the right one mirrored through the palm plane, which for a flat hand is the same landmarks
+    const pressed = hand({ x: 0.5, y: 0.7 });
+    const relations = analyzeTwoHands(landmarkerResult([
+      { landmarks: pressed, handedness: 'Right' },
+      { landmarks: pressed, handedness: 'Left' },
+    ]))!;
+    expect(relations.palmFacing).toBeCloseTo(-1);
+    expect(relations.palmOverlap).toBe(1);
+    expect(relations.wristDistance).toBe(0);
+  });
+
+  it('reports both palms showing as facing the same way', () => {
+    const relations = analyzeTwoHands(landmarkerResult([
+      { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+      { landmarks: hand({ x: 0.7, y: 0.7 }, true), handedness: 'Left' },
+    ]))!;
+    expect(relations.palmFacing).toBeCloseTo(1);
+  });
+});
+
+describe('evaluateTwoHandPose', () => {
+  const apart = (gap: number) => analyzeTwoHands(landmarkerResult([
+    { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+    { landmarks: hand({ x: 0.3 + gap * SIZE, y: 0.7 }), handedness: 'Left' },
+  ]))!;
+
+  it('uses the exit thresholds only while held', () => {
+    const definition: TwoHandPoseDefinition = { name: 'close', wristDistance: { max: 2, exitMax: 3 } };
+    expect(evaluateTwoHandPose(definition, apart(2.5))).toBeNull();
+    expect(evaluateTwoHandPose(definition, apart(2.5), true)).toBe(1);
+    expect(evaluateTwoHandPose(definition, apart(3.5), true)).toBeNull();
+  });
+
+  it('lowers the confidence as the tips near their max distance', () => {
+    const definition: TwoHandPoseDefinition = { name: 'tips', tipDistances: { index: { max: 2 } } };
+    expect(evaluateTwoHandPose(definition, apart(0.5))).toBeCloseTo(0.75);
+    expect(evaluateTwoHandPose(definition, apart(2.1))).toBeNull();
+  });
+
+  it('keeps the recognizer detecting inside the exit band', () => {
+    const recognizer = new TwoHandPoseRecognizer({ name: 'close', wristDistance: { max: 2, exitMax: 3 } });
+    const frame = (gap: number) => landmarkerResult([
+      { landmarks: hand({ x: 0.3, y: 0.7 }), handedness: 'Right' },
+      { landmarks: hand({ x: 0.3 + gap * SIZE, y: 0.7 }), handedness: 'Left' },
+    ]);
+
+    expect(recognizer.recognize(frame(2.5)).detected).toBe(false);
+    expect(recognizer.recognize(frame(1.5))).toMatchObject({ detected: true, handIndex: 0, handIndices: [1, 0] });
+    expect(recognizer.recognize(frame(2.5)).detected).toBe(true);
+    expect(recognizer.recognize(frame(3.5)).detected).toBe(false);
+  });
+});
+
+describe('parseTwoHandPoseDefinition', () => {
+  it.each<[string, unknown, string]>([
+    ['an unknown finger', { name: 'p', tipDistances: { toe: { max: 1 } } }, 'tipDistances: unknown finger "toe"'],
+    ['a non-numeric range', { name: 'p', palmFacing: { max: 'low' } }, 'palmFacing.max must be a number'],
+    ['a bad center', { name: 'p', center: 'ELBOW' }, 'center must be a landmark name'],
+  ])('rejects %s', (_, definition, message) => {
+    expect(() => parseTwoHandPoseDefinition(definition)).toThrow(`Invalid two-hand pose definition "p": ${message}`);
+  });
+});
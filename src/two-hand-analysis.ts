@@ -0,0 +1,359 @@
+/**
+ * Two-hand analysis
+ * Pairs the user's left and right hands and measures how they relate to each
+ * other, so seals that need both hands can be recognized jointly
+ */
+
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS, HandLandmarkName, Point2D, Point3D } from './hand-landmarks';
+import { GestureDetection, GestureRecognizer, LandmarkInput, noDetection } from './gesture-recognizer';
+import {
+  FINGER_CHAINS,
+  FingerName,
+  HandRules,
+  definitionFailure,
+  evaluatePose,
+  isLandmarkName,
+  isOptionalNumber,
+  landmarkDistance,
+  validateHandRules,
+} from './pose-definition';
+
+export interface PairedHand {
+  // Index into HandLandmarkerResult.landmarks
+  index: number;
+  landmarks: NormalizedLandmark[];
+}
+
+export interface HandPair {
+  // User's anatomical hands
+  left: PairedHand;
+  right: PairedHand;
+}
+
+export interface TwoHandRelations {
+  pair: HandPair;
+  // Fingertip-to-fingertip distance per finger, divided by the mean hand size
+  tipDistances: Record<FingerName, number>;
+  // Wrist-to-wrist distance, divided by the mean hand size
+  wristDistance: number;
+  // Unit palm normals, pointing out of each palm
+  palmNormals: { left: Point3D; right: Point3D };
+  // Dot product of the palm normals: -1 = palms face each other, 1 = same direction
+  palmFacing: number;
+  // Overlap of the two palm bounding boxes in the image plane (0-1, relative to the smaller palm)
+  palmOverlap: number;
+  // Midpoint between the two palm centroids (normalized 0-1)
+  center: Point2D;
+}
+
+// Landmarks that outline the palm
+export const PALM_LANDMARKS: HandLandmarkName[] = [
+  'WRIST', 'THUMB_CMC', 'INDEX_FINGER_MCP', 'MIDDLE_FINGER_MCP', 'RING_FINGER_MCP', 'PINKY_MCP',
+];
+
+const FINGER_NAMES = Object.keys(FINGER_CHAINS) as FingerName[];
+
+/**
+ * Pick the user's left and right hand from a frame
+ * Uses MediaPipe's handedness labels; when both hands carry the same label,
+ * falls back to image position (the user's right hand appears on the left of
+ * the unmirrored camera image)
+ */
+export function pairHands(detectionResult: HandLandmarkerResult): HandPair | null {
+  const hands: { index: number; label: string; score: number; landmarks: NormalizedLandmark[] }[] = [];
+  for (let i = 0; i < detectionResult.landmarks.length; i++) {
+    const landmarks = detectionResult.landmarks[i];
+    const category = detectionResult.handednesses[i]?.[0];
+    if (!landmarks || landmarks.length < 21 || !category) continue;
+    hands.push({ index: i, label: category.categoryName, score: category.score, landmarks });
+  }
+
+  if (hands.length < 2) return null;
+
+  const best = (label: string) => hands
+    .filter((hand) => hand.label === label)
+    .sort((a, b) => b.score - a.score)[0];
+
+  let left = best('Left');
+  let right = best('Right');
+
+  if (!left || !right) {
+    const [a, b] = hands.slice(0, 2).sort(
+      (a, b) => a.landmarks[HAND_LANDMARKS.WRIST].x - b.landmarks[HAND_LANDMARKS.WRIST].x
+    );
+    right = a;
+    left = b;
+  }
+
+  return {
+    left: { index: left.index, landmarks: left.landmarks },
+    right: { index: right.index, landmarks: right.landmarks },
+  };
+}
+
+export function palmCentroid(landmarks: NormalizedLandmark[]): Point3D {
+  const sum = { x: 0, y: 0, z: 0 };
+  for (const name of PALM_LANDMARKS) {
+    const point = landmarks[HAND_LANDMARKS[name]];
+    sum.x += point.x;
+    sum.y += point.y;
+    sum.z += point.z;
+  }
+  return {
+    x: sum.x / PALM_LANDMARKS.length,
+    y: sum.y / PALM_LANDMARKS.length,
+    z: sum.z / PALM_LANDMARKS.length,
+  };
+}
+
+/**
+ * Unit vector pointing out of the palm
+ * The cross product flips with chirality, so the left hand's is negated to
+ * keep both hands' normals on the palm side
+ */
+export function palmNormal(landmarks: NormalizedLandmark[], hand: 'Left' | 'Right'): Point3D {
+  const wrist = landmarks[HAND_LANDMARKS.WRIST];
+  const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+  const pinkyMcp = landmarks[HAND_LANDMARKS.PINKY_MCP];
+
+  const ax = indexMcp.x - wrist.x, ay = indexMcp.y - wrist.y, az = indexMcp.z - wrist.z;
+  const bx = pinkyMcp.x - wrist.x, by = pinkyMcp.y - wrist.y, bz = pinkyMcp.z - wrist.z;
+
+  const sign = hand === 'Right' ? 1 : -1;
+  const normal = {
+    x: (ay * bz - az * by) * sign,
+    y: (az * bx - ax * bz) * sign,
+    z: (ax * by - ay * bx) * sign,
+  };
+  const length = Math.sqrt(normal.x * normal.x + normal.y * normal.y + normal.z * normal.z);
+  if (length === 0) return { x: 0, y: 0, z: 0 };
+
+  return { x: normal.x / length, y: normal.y / length, z: normal.z / length };
+}
+
+function palmBounds(landmarks: NormalizedLandmark[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const points = PALM_LANDMARKS.map((name) => landmarks[HAND_LANDMARKS[name]]);
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+function palmOverlap(a: NormalizedLandmark[], b: NormalizedLandmark[]): number {
+  const boxA = palmBounds(a);
+  const boxB = palmBounds(b);
+
+  const width = Math.min(boxA.maxX, boxB.maxX) - Math.max(boxA.minX, boxB.minX);
+  const height = Math.min(boxA.maxY, boxB.maxY) - Math.max(boxA.minY, boxB.minY);
+  if (width <= 0 || height <= 0) return 0;
+
+  const areaA = (boxA.maxX - boxA.minX) * (boxA.maxY - boxA.minY);
+  const areaB = (boxB.maxX - boxB.minX) * (boxB.maxY - boxB.minY);
+  const smaller = Math.min(areaA, areaB);
+  return smaller > 0 ? Math.min(1, (width * height) / smaller) : 0;
+}
+
+function handSize(landmarks: NormalizedLandmark[]): number {
+  return landmarkDistance(
+    landmarks[HAND_LANDMARKS.WRIST],
+    landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP],
+    2
+  );
+}
+
+/**
+ * Measure cross-hand relations, or null when both hands aren't visible
+ */
+export function analyzeTwoHands(detectionResult: HandLandmarkerResult): TwoHandRelations | null {
+  const pair = pairHands(detectionResult);
+  if (!pair) return null;
+
+  const left = pair.left.landmarks;
+  const right = pair.right.landmarks;
+
+  const meanHandSize = (handSize(left) + handSize(right)) / 2;
+  if (meanHandSize === 0) return null;
+
+  const tipDistances = {} as Record<FingerName, number>;
+  for (const finger of FINGER_NAMES) {
+    const tip = HAND_LANDMARKS[FINGER_CHAINS[finger][4]];
+    tipDistances[finger] = landmarkDistance(left[tip], right[tip]) / meanHandSize;
+  }
+
+  const leftNormal = palmNormal(left, 'Left');
+  const rightNormal = palmNormal(right, 'Right');
+  const leftCenter = palmCentroid(left);
+  const rightCenter = palmCentroid(right);
+
+  return {
+    pair,
+    tipDistances,
+    wristDistance: landmarkDistance(left[HAND_LANDMARKS.WRIST], right[HAND_LANDMARKS.WRIST]) / meanHandSize,
+    palmNormals: { left: leftNormal, right: rightNormal },
+    palmFacing: leftNormal.x * rightNormal.x + leftNormal.y * rightNormal.y + leftNormal.z * rightNormal.z,
+    palmOverlap: palmOverlap(left, right),
+    center: {
+      x: (leftCenter.x + rightCenter.x) / 2,
+      y: (leftCenter.y + rightCenter.y) / 2,
+    },
+  };
+}
+
+export interface RangeRule {
+  min?: number;
+  max?: number;
+  // Exit thresholds applied while the pose is already held (default: min/max)
+  exitMin?: number;
+  exitMax?: number;
+}
+
+export interface TwoHandPoseDefinition {
+  name: string;
+  description?: string;
+  // Landmarks to evaluate when smoothing is on (default smoothed)
+  input?: LandmarkInput;
+  // Per-hand constraints, same format as single-hand poses
+  left?: HandRules;
+  right?: HandRules;
+  tipDistances?: Partial<Record<FingerName, RangeRule>>;
+  wristDistance?: RangeRule;
+  palmFacing?: RangeRule;
+  palmOverlap?: RangeRule;
+  // Landmark whose left/right midpoint is the centerPoint (default: midpoint of the palms)
+  center?: HandLandmarkName;
+}
+
+function inRange(value: number, rule: RangeRule | undefined, held: boolean): boolean {
+  if (!rule) return true;
+  const min = held ? rule.exitMin ?? rule.min : rule.min;
+  const max = held ? rule.exitMax ?? rule.max : rule.max;
+  if (min !== undefined && value < min) return false;
+  if (max !== undefined && value > max) return false;
+  return true;
+}
+
+/**
+ * Evaluate a two-hand pose against measured relations
+ * Returns the confidence (0-1) when every rule passes, or null otherwise.
+ * Confidence combines both hands' rule confidence with the margin of
+ * each tip-distance rule that sets a `max`.
+ * `held` switches every rule to its exit thresholds.
+ */
+export function evaluateTwoHandPose(
+  definition: TwoHandPoseDefinition,
+  relations: TwoHandRelations,
+  held = false
+): number | null {
+  let confidence = 1;
+
+  for (const [rules, hand] of [[definition.left, relations.pair.left], [definition.right, relations.pair.right]] as const) {
+    if (!rules) continue;
+    const handConfidence = evaluatePose(rules, hand.landmarks, held);
+    if (handConfidence === null) return null;
+    confidence = Math.min(confidence, handConfidence);
+  }
+
+  for (const [finger, rule] of Object.entries(definition.tipDistances ?? {})) {
+    const distance = relations.tipDistances[finger as FingerName];
+    if (!inRange(distance, rule, held)) return null;
+    if (rule?.max !== undefined && rule.max > 0) {
+      confidence = Math.min(confidence, 1 - distance / rule.max);
+    }
+  }
+
+  if (!inRange(relations.wristDistance, definition.wristDistance, held)) return null;
+  if (!inRange(relations.palmFacing, definition.palmFacing, held)) return null;
+  if (!inRange(relations.palmOverlap, definition.palmOverlap, held)) return null;
+
+  return Math.max(0, confidence);
+}
+
+/**
+ * Turns a two-hand pose definition into a gesture recognizer
+ * Detections report the right hand as handIndex and both hands in handIndices
+ */
+export class TwoHandPoseRecognizer implements GestureRecognizer {
+  readonly name: string;
+  readonly definition: TwoHandPoseDefinition;
+  readonly input: LandmarkInput;
+  private held = false;
+
+  constructor(definition: TwoHandPoseDefinition) {
+    this.definition = parseTwoHandPoseDefinition(definition);
+    this.name = definition.name;
+    this.input = definition.input ?? 'smoothed';
+  }
+
+  recognize(detectionResult: HandLandmarkerResult): GestureDetection {
+    const relations = analyzeTwoHands(detectionResult);
+    const confidence = relations ? evaluateTwoHandPose(this.definition, relations, this.held) : null;
+    this.held = confidence !== null;
+    if (!relations || confidence === null) return noDetection(this.name);
+
+    let centerPoint = relations.center;
+    if (this.definition.center) {
+      const index = HAND_LANDMARKS[this.definition.center];
+      const left = relations.pair.left.landmarks[index];
+      const right = relations.pair.right.landmarks[index];
+      centerPoint = { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+    }
+
+    return {
+      name: this.name,
+      detected: true,
+      confidence,
+      centerPoint,
+      handIndex: relations.pair.right.index,
+      handIndices: [relations.pair.left.index, relations.pair.right.index],
+    };
+  }
+}
+
+/**
+ * Validate untrusted JSON as a two-hand pose definition
+ */
+export function parseTwoHandPoseDefinition(value: unknown): TwoHandPoseDefinition {
+  const fail = definitionFailure(value, 'two-hand pose definition');
+
+  if (typeof value !== 'object' || value === null) fail('expected an object');
+  const def = value as Record<string, unknown>;
+
+  if (typeof def.name !== 'string' || def.name.length === 0) fail('name must be a non-empty string');
+  if (def.input !== undefined && def.input !== 'raw' && def.input !== 'smoothed') {
+    fail('input must be "raw" or "smoothed"');
+  }
+
+  for (const hand of ['left', 'right']) {
+    if (def[hand] === undefined) continue;
+    if (typeof def[hand] !== 'object' || def[hand] === null) fail(`${hand} must be an object`);
+    validateHandRules(def[hand] as Record<string, unknown>, (message) => fail(`${hand}: ${message}`));
+  }
+
+  const checkRange = (label: string, rule: unknown) => {
+    if (rule === undefined) return;
+    const range = rule as Record<string, unknown> | null;
+    if (typeof range !== 'object' || range === null) fail(`${label} must be an object`);
+    for (const key of ['min', 'max', 'exitMin', 'exitMax']) {
+      if (!isOptionalNumber(range![key])) fail(`${label}.${key} must be a number`);
+    }
+  };
+
+  if (def.tipDistances !== undefined) {
+    if (typeof def.tipDistances !== 'object' || def.tipDistances === null) fail('tipDistances must be an object');
+    for (const [finger, rule] of Object.entries(def.tipDistances as object)) {
+      if (!(finger in FINGER_CHAINS)) fail(`tipDistances: unknown finger "${finger}"`);
+      checkRange(`tipDistances.${finger}`, rule);
+    }
+  }
+
+  checkRange('wristDistance', def.wristDistance);
+  checkRange('palmFacing', def.palmFacing);
+  checkRange('palmOverlap', def.palmOverlap);
+
+  if (def.center !== undefined && !isLandmarkName(def.center)) fail('center must be a landmark name');
+
+  return def as unknown as TwoHandPoseDefinition;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { clampLookAt, fitFrame, framePoint } from './video-framing';
+
+// 4:3 camera frame on a 16:9 canvas
+const CANVAS = { width: 1280, height: 720 };
+
+describe('fitFrame', () => {
+  it('covers the canvas, cropping the overflow evenly', () => {
+    expect(fitFrame(640, 480, CANVAS.width, CANVAS.height, 'mirror')).toEqual({ x: 0, y: -120, width: 1280, height: 960 });
+  });
+
+  it('fits inside the canvas for letterbox', () => {
+    expect(fitFrame(640, 480, CANVAS.width, CANVAS.height, 'letterbox')).toEqual({ x: 160, y: 0, width: 960, height: 720 });
+  });
+
+  it('fills the canvas until the source size is known', () => {
+    expect(fitFrame(0, 0, CANVAS.width, CANVAS.height, 'clamp')).toEqual({ x: 0, y: 0, ...CANVAS });
+  });
+});
+
+describe('framePoint', () => {
+  const frame = { x: 0, y: -120, width: 1280, height: 960 };
+
+  it('flips x for a mirrored front camera', () => {
+    expect(framePoint({ x: 0.25, y: 0.5 }, frame)).toEqual({ x: 960, y: 360 });
+  });
+
+  it('keeps x for a rear camera', () => {
+    expect(framePoint({ x: 0.25, y: 0.5 }, frame, false)).toEqual({ x: 320, y: 360 });
+  });
+});
+
+describe('clampLookAt', () => {
+  const frame = fitFrame(640, 480, CANVAS.width, CANVAS.height, 'clamp');
+
+  it('keeps the visible area inside the frame', () => {
+    // The frame is exactly as wide as the canvas, so x can only stay centered
+    expect(clampLookAt({ x: 100, y: 100 }, frame, CANVAS.width, CANVAS.height)).toEqual({ x: 640, y: 240 });
+    expect(clampLookAt({ x: 1200, y: 700 }, frame, CANVAS.width, CANVAS.height)).toEqual({ x: 640, y: 480 });
+  });
+
+  it('leaves a point alone when the view already fits', () => {
+    expect(clampLookAt({ x: 640, y: 400 }, frame, CANVAS.width, CANVAS.height)).toEqual({ x: 640, y: 400 });
+  });
+
+  it('allows more travel when zoomed in', () => {
+    const lookAt = clampLookAt({ x: 100, y: 100 }, frame, CANVAS.width, CANVAS.height, { zoom: 2, rotation: 0 });
+    expect(lookAt).toEqual({ x: 320, y: 100 });
+  });
+
+  it('swaps the extents for a quarter turn', () => {
+    const lookAt = clampLookAt({ x: 100, y: 100 }, frame, CANVAS.width, CANVAS.height, { zoom: 1, rotation: Math.PI / 2 });
+    // 720 wide by 1280 tall on screen: free along x, no room along y
+    expect(lookAt.x).toBeCloseTo(360);
+    expect(lookAt.y).toBeCloseTo(360);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Video framing
+ * Lays the camera frame out at its real aspect ratio, shifts it so the
+ * anchor lands at the center of the canvas, and decides what fills the
+ * area the shifted frame no longer covers
+ */
+
+import { Point2D } from './hand-landmarks';
+import { InputFrame } from './input-source';
+import { IDENTITY_VIEW_TRANSFORM, ViewTransform } from './view-transform';
+
+// What shows where the shifted, zoomed or rotated frame doesn't cover the canvas;
+// clamp is the only mode that never uncovers it
+export type EdgeMode = 'clamp' | 'mirror' | 'blur' | 'letterbox';
+
+export const EDGE_MODE_LABELS: Record<EdgeMode, string> = {
+  clamp: '端で止める',
+  mirror: '鏡像で延長',
+  blur: 'ぼかし背景',
+  letterbox: 'レターボックス',
+};
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const BACKGROUND_COLOR = '#1a1a1a';
+const LETTERBOX_COLOR = '#000';
+// The blurred backdrop is rendered at this fraction of the canvas size and scaled up
+const BACKDROP_SCALE = 1 / 16;
+// Backdrop is enlarged a little so the blur doesn't fade out at the canvas edges
+const BACKDROP_ZOOM = 1.2;
+
+/**
+ * Unshifted frame layout: covering the canvas, or fitting inside it for letterbox
+ */
+export function fitFrame(
+  sourceWidth: number,
+  sourceHeight: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  mode: EdgeMode
+): FrameRect {
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    return { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+  }
+  const scaleX = canvasWidth / sourceWidth;
+  const scaleY = canvasHeight / sourceHeight;
+  const scale = mode === 'letterbox' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { x: (canvasWidth - width) / 2, y: (canvasHeight - height) / 2, width, height };
+}
+
+/**
+ * Where a normalized (unmirrored) point lands in the unshifted frame,
+ * drawn mirrored unless `mirrored` is false (rear cameras)
+ */
+export function framePoint(point: Point2D, frame: FrameRect, mirrored = true): Point2D {
+  return {
+    x: frame.x + (mirrored ? 1 - point.x : point.x) * frame.width,
+    y: frame.y + point.y * frame.height,
+  };
+}
+
+/**
+ * Move the point brought to the canvas center just far enough that the
+ * visible area, after zoom and rotation, stays inside the frame
+ */
+export function clampLookAt(
+  lookAt: Point2D,
+  frame: FrameRect,
+  canvasWidth: number,
+  canvasHeight: number,
+  view: ViewTransform = IDENTITY_VIEW_TRANSFORM
+): Point2D {
+  const cos = Math.abs(Math.cos(view.rotation));
+  const sin = Math.abs(Math.sin(view.rotation));
+  // Half extents of the visible area in frame coordinates
+  const halfX = ((canvasWidth / 2) * cos + (canvasHeight / 2) * sin) / view.zoom;
+  const halfY = ((canvasWidth / 2) * sin + (canvasHeight / 2) * cos) / view.zoom;
+
+  const clampAxis = (value: number, start: number, size: number, half: number): number =>
+    half * 2 >= size ? start + size / 2 : Math.min(start + size - half, Math.max(start + half, value));
+
+  return {
+    x: clampAxis(lookAt.x, frame.x, frame.width, halfX),
+    y: clampAxis(lookAt.y, frame.y, frame.height, halfY),
+  };
+}
+
+export class VideoFramer {
+  private backdrop: HTMLCanvasElement | null = null;
+
+  /**
+   * Draw the input frame with the anchor (normalized, unmirrored) at the canvas center
+   * A null anchor shows the frame unshifted; a null frame only clears the canvas
+   */
+  render(
+    ctx: CanvasRenderingContext2D,
+    source: InputFrame | null,
+    anchor: Point2D | null,
+    mode: EdgeMode,
+    view: ViewTransform = IDENTITY_VIEW_TRANSFORM,
+    mirrored = true
+  ): void {
+    const { width, height } = ctx.canvas;
+    ctx.save();
+    ctx.fillStyle = mode === 'letterbox' ? LETTERBOX_COLOR : BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    if (!source) {
+      ctx.restore();
+      return;
+    }
+
+    const frame = fitFrame(source.width, source.height, width, height, mode);
+
+    if (mode === 'blur') {
+      this.drawBackdrop(ctx, source, frame, mirrored);
+    }
+
+    let lookAt = anchor ? framePoint(anchor, frame, mirrored) : { x: width / 2, y: height / 2 };
+    if (mode === 'clamp') {
+      lookAt = clampLookAt(lookAt, frame, width, height, view);
+    }
+
+    // Bring the look-at point to the center, then zoom and rotate around it
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(view.rotation);
+    ctx.scale(view.zoom, view.zoom);
+    ctx.translate(-lookAt.x, -lookAt.y);
+
+    if (mode === 'mirror') {
+      // Reflected copies around the frame continue its edges outward
+      for (let row = -1; row <= 1; row++) {
+        for (let column = -1; column <= 1; column++) {
+          drawTile(ctx, source, frame, column, row, mirrored);
+        }
+      }
+    } else {
+      drawTile(ctx, source, frame, 0, 0, mirrored);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Blurred, enlarged copy of the unshifted frame behind everything
+   * Drawn small and scaled up, which is far cheaper than blurring at full size
+   */
+  private drawBackdrop(
+    ctx: CanvasRenderingContext2D,
+    source: InputFrame,
+    frame: FrameRect,
+    mirrored: boolean
+  ): void {
+    const { width, height } = ctx.canvas;
+    if (!this.backdrop) {
+      this.backdrop = document.createElement('canvas');
+    }
+    const backdrop = this.backdrop;
+    backdrop.width = Math.max(1, Math.round(width * BACKDROP_SCALE));
+    backdrop.height = Math.max(1, Math.round(height * BACKDROP_SCALE));
+
+    const backdropCtx = backdrop.getContext('2d');
+    if (!backdropCtx) return;
+
+    backdropCtx.save();
+    backdropCtx.filter = 'blur(2px)';
+    backdropCtx.scale(BACKDROP_SCALE * BACKDROP_ZOOM, BACKDROP_SCALE * BACKDROP_ZOOM);
+    backdropCtx.translate(
+      (width * (1 / BACKDROP_ZOOM - 1)) / 2,
+      (height * (1 / BACKDROP_ZOOM - 1)) / 2
+    );
+    drawTile(backdropCtx, source, frame, 0, 0, mirrored);
+    backdropCtx.restore();
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(backdrop, 0, 0, width, height);
+  }
+}
+
+/**
+ * Draw the frame, or the reflection of it `column` and `row` frames away
+ */
+function drawTile(
+  ctx: CanvasRenderingContext2D,
+  source: InputFrame,
+  frame: FrameRect,
+  column: number,
+  row: number,
+  mirrored: boolean
+): void {
+  ctx.save();
+  ctx.translate(frame.x + (column + 0.5) * frame.width, frame.y + (row + 0.5) * frame.height);
+  // Front cameras are mirrored for natural interaction; odd tiles flip once more to reflect their neighbour
+  const flipX = (column % 2 === 0) === mirrored;
+  ctx.scale(flipX ? -1 : 1, row % 2 === 0 ? 1 : -1);
+  ctx.drawImage(source.image, -frame.width / 2, -frame.height / 2, frame.width, frame.height);
+  ctx.restore();
+}
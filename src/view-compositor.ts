@@ -0,0 +1,36 @@
+/**
+ * View compositor
+ * The view is split over stacked canvases (video, debug overlay, effect);
+ * this flattens them into one canvas that can be recorded or saved
+ */
+
+export class ViewCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    this.ctx = this.canvas.getContext('2d')!;
+  }
+
+  /**
+   * Draw the layers bottom to top, sized to the first one; null layers are skipped
+   */
+  compose(layers: (HTMLCanvasElement | null)[]): HTMLCanvasElement {
+    const base = layers.find((layer) => layer !== null);
+    if (!base) return this.canvas;
+
+    if (this.canvas.width !== base.width || this.canvas.height !== base.height) {
+      this.canvas.width = base.width;
+      this.canvas.height = base.height;
+    }
+
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    for (const layer of layers) {
+      if (layer) {
+        this.ctx.drawImage(layer, 0, 0, this.canvas.width, this.canvas.height);
+      }
+    }
+    return this.canvas;
+  }
+}
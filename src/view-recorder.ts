@@ -0,0 +1,105 @@
+/**
+ * View recorder
+ * Records the composited view with MediaRecorder and hands back a WebM,
+ * optionally with an audio track mixed in
+ */
+
+export interface ViewRecorderOptions {
+  // Capture rate of the canvas stream (frames per second)
+  frameRate: number;
+  videoBitsPerSecond: number;
+}
+
+export const DEFAULT_VIEW_RECORDER_OPTIONS: ViewRecorderOptions = {
+  frameRate: 30,
+  videoBitsPerSecond: 8_000_000,
+};
+
+// Tried in order; the first one the browser can record is used
+const WEBM_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export class ViewRecorder {
+  private options: ViewRecorderOptions;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  constructor(options: Partial<ViewRecorderOptions> = {}) {
+    this.options = { ...DEFAULT_VIEW_RECORDER_OPTIONS, ...options };
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && WEBM_MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+  }
+
+  /**
+   * Start recording the canvas, with the audio tracks of `audio` if given
+   */
+  start(canvas: HTMLCanvasElement, audio: MediaStream | null = null): void {
+    if (this.recorder) return;
+
+    const stream = canvas.captureStream(this.options.frameRate);
+    for (const track of audio?.getAudioTracks() ?? []) {
+      stream.addTrack(track);
+    }
+
+    const mimeType = WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: this.options.videoBitsPerSecond });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    // Deliver data every second so a long recording isn't held in one buffer
+    this.recorder.start(1000);
+    this.startedAt = performance.now();
+  }
+
+  /**
+   * Finish the recording; resolves with the WebM once the last data has arrived
+   */
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error('Not recording'));
+    this.recorder = null;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        // Only the canvas track belongs to us; the audio tracks stay with their owner
+        for (const track of recorder.stream.getVideoTracks()) {
+          track.stop();
+        }
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Time since recording started (ms), 0 when not recording
+   */
+  getElapsed(): number {
+    return this.recorder ? performance.now() - this.startedAt : 0;
+  }
+}
+
+/**
+ * Route a media element through Web Audio so it can be recorded as well
+ * It keeps playing through the speakers; call at most once per element
+ */
+export function captureElementAudio(element: HTMLMediaElement): MediaStream {
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(element);
+  const destination = context.createMediaStreamDestination();
+  source.connect(context.destination);
+  source.connect(destination);
+  return destination.stream;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS } from './hand-landmarks';
+import { ViewTransformController, coverZoom, handRoll, pinchDistance } from './view-transform';
+import { clampLookAt, fitFrame } from './video-framing';
+import { syntheticHand } from './fixtures/synthetic-hand';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_MS = 1000 / 30;
+
+/**
+ * Hand of size 0.1 with the thumb and index tips `pinch` hand sizes apart
+ */
+function pinchingHand(pinch: number, roll = 0): NormalizedLandmark[] {
+  const landmarks = syntheticHand({ position: { x: 0.5, y: 0.7 }, scale: 0.1, roll });
+  landmarks[HAND_LANDMARKS.THUMB_TIP] = { x: 0.5, y: 0.6, z: 0, visibility: 0 };
+  landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP] = { x: 0.5 + pinch * 0.1, y: 0.6, z: 0, visibility: 0 };
+  return landmarks;
+}
+
+describe('coverZoom', () => {
+  it('needs no zoom without rotation', () => {
+    expect(coverZoom(WIDTH, HEIGHT, 0)).toBe(1);
+  });
+
+  it('needs the aspect ratio for a quarter turn, either way', () => {
+    expect(coverZoom(WIDTH, HEIGHT, Math.PI / 2)).toBeCloseTo(WIDTH / HEIGHT);
+    expect(coverZoom(WIDTH, HEIGHT, -Math.PI / 2)).toBeCloseTo(WIDTH / HEIGHT);
+  });
+});
+
+describe('handRoll', () => {
+  it('reads the tilt clockwise as seen on screen', () => {
+    const hand = syntheticHand({ roll: 20 });
+    expect(handRoll(hand, false)).toBeCloseTo(Math.PI / 9);
+    // The mirrored display turns a clockwise tilt counter-clockwise
+    expect(handRoll(hand, true)).toBeCloseTo(-Math.PI / 9);
+  });
+});
+
+describe('pinchDistance', () => {
+  it('measures the tips in hand sizes', () => {
+    expect(pinchDistance(pinchingHand(0.7))).toBeCloseTo(0.7);
+  });
+});
+
+describe('ViewTransformController', () => {
+  // Smoothing 1 follows every frame exactly
+  const controller = () => new ViewTransformController({ smoothing: 1 });
+
+  it('maps the pinch onto the zoom range and clamps beyond it', () => {
+    const view = controller();
+    expect(view.update(pinchingHand(0.7), 0).zoom).toBeCloseTo(2);
+    expect(view.update(pinchingHand(5), FRAME_MS).zoom).toBeCloseTo(3);
+    expect(view.update(pinchingHand(0), FRAME_MS * 2).zoom).toBeCloseTo(1);
+  });
+
+  it('counter-rotates the hand roll up to maxRotation', () => {
+    const view = controller();
+    expect(view.update(pinchingHand(0, 20), 0, false).rotation).toBeCloseTo(-Math.PI / 9);
+    expect(view.update(pinchingHand(0, -80), FRAME_MS, false).rotation).toBeCloseTo(Math.PI / 4);
+  });
+
+  it('eases back to identity without a hand', () => {
+    const view = controller();
+    view.update(pinchingHand(1.2, 30), 0);
+    expect(view.update(null, FRAME_MS)).toEqual({ zoom: 1, rotation: 0 });
+  });
+
+  it('zooms in far enough to cover the canvas while rotated, but no further than maxZoom', () => {
+    const view = controller();
+    view.update(pinchingHand(0, 30), 0, false);
+    const { zoom, rotation } = view.getTransform(WIDTH, HEIGHT);
+    expect(zoom).toBeCloseTo(coverZoom(WIDTH, HEIGHT, rotation));
+
+    const capped = new ViewTransformController({ smoothing: 1, maxZoom: 1.1 });
+    capped.update(pinchingHand(0, 30), 0, false);
+    expect(capped.getTransform(WIDTH, HEIGHT).zoom).toBe(1.1);
+  });
+
+  it.each([
+    ['at rest', 0, 0],
+    ['rotated', 0.7, 30],
+    ['zoomed in and rotated the other way', 1.2, -40],
+  ])('keeps the clamped view inside the frame when panned to a corner (%s)', (_, pinch, roll) => {
+    const view = controller();
+    view.update(pinchingHand(pinch, roll), 0, false);
+    const transform = view.getTransform(WIDTH, HEIGHT);
+
+    // 4:3 camera filling a 16:9 canvas, anchor in the top-left corner
+    const frame = fitFrame(640, 480, WIDTH, HEIGHT, 'clamp');
+    const lookAt = clampLookAt({ x: 0, y: 0 }, frame, WIDTH, HEIGHT, transform);
+
+    // Every canvas corner, mapped back into frame coordinates, lands on the frame
+    const cos = Math.cos(-transform.rotation);
+    const sin = Math.sin(-transform.rotation);
+    for (const [cx, cy] of [[0, 0], [WIDTH, 0], [0, HEIGHT], [WIDTH, HEIGHT]]) {
+      const dx = (cx - WIDTH / 2) / transform.zoom;
+      const dy = (cy - HEIGHT / 2) / transform.zoom;
+      const x = lookAt.x + dx * cos - dy * sin;
+      const y = lookAt.y + dx * sin + dy * cos;
+      expect(x).toBeGreaterThanOrEqual(frame.x - 1e-6);
+      expect(x).toBeLessThanOrEqual(frame.x + frame.width + 1e-6);
+      expect(y).toBeGreaterThanOrEqual(frame.y - 1e-6);
+      expect(y).toBeLessThanOrEqual(frame.y + frame.height + 1e-6);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * View transform for the finger camera
+ * Thumb-index pinch distance drives zoom around the anchor, and the
+ * wrist→middle-MCP roll drives view rotation so the hand stays upright
+ */
+
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKS } from './hand-landmarks';
+import { landmarkDistance } from './pose-definition';
+import { ExponentialFilter } from './point-filter';
+
+export interface ViewTransform {
+  zoom: number;
+  // Radians, clockwise on screen
+  rotation: number;
+}
+
+export interface ViewTransformOptions {
+  minZoom: number;
+  maxZoom: number;
+  // Pinch distance (divided by hand size) mapped to minZoom and maxZoom
+  pinchClosed: number;
+  pinchOpen: number;
+  // Largest rotation either way (radians)
+  maxRotation: number;
+  // 0-1, higher follows the hand more closely
+  smoothing: number;
+}
+
+export const DEFAULT_VIEW_TRANSFORM_OPTIONS: ViewTransformOptions = {
+  minZoom: 1,
+  maxZoom: 3,
+  pinchClosed: 0.2,
+  pinchOpen: 1.2,
+  maxRotation: Math.PI / 4,
+  smoothing: 0.2,
+};
+
+export const IDENTITY_VIEW_TRANSFORM: ViewTransform = { zoom: 1, rotation: 0 };
+
+/**
+ * Smallest zoom at which a canvas-sized frame, rotated about the canvas
+ * center, still covers the whole canvas
+ */
+export function coverZoom(width: number, height: number, rotation: number): number {
+  const cos = Math.abs(Math.cos(rotation));
+  const sin = Math.abs(Math.sin(rotation));
+  return Math.max(cos + (height / width) * sin, (width / height) * sin + cos);
+}
+
+/**
+ * Hand roll as seen on screen: 0 with the fingers pointing up,
+ * positive when tilted clockwise
+ */
+export function handRoll(landmarks: NormalizedLandmark[], mirrored = true): number {
+  const wrist = landmarks[HAND_LANDMARKS.WRIST];
+  const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+  // Mirror x to match the display
+  const dx = mirrored ? wrist.x - middleMcp.x : middleMcp.x - wrist.x;
+  const dy = middleMcp.y - wrist.y;
+  return Math.atan2(dx, -dy);
+}
+
+export function pinchDistance(landmarks: NormalizedLandmark[]): number {
+  const handSize = landmarkDistance(
+    landmarks[HAND_LANDMARKS.WRIST],
+    landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP],
+    2
+  );
+  if (handSize === 0) return 0;
+  return landmarkDistance(landmarks[HAND_LANDMARKS.THUMB_TIP], landmarks[HAND_LANDMARKS.INDEX_FINGER_TIP], 2) / handSize;
+}
+
+export class ViewTransformController {
+  private options: ViewTransformOptions;
+  private filter: ExponentialFilter;
+  private current: ViewTransform = { ...IDENTITY_VIEW_TRANSFORM };
+
+  constructor(options: Partial<ViewTransformOptions> = {}) {
+    this.options = { ...DEFAULT_VIEW_TRANSFORM_OPTIONS, ...options };
+    this.filter = new ExponentialFilter(this.options.smoothing);
+  }
+
+  /**
+   * Feed the controlling hand's landmarks for a new frame (null eases back to identity)
+   * `mirrored` tells whether the display flips the camera image horizontally
+   */
+  update(landmarks: NormalizedLandmark[] | null, timestamp: number, mirrored = true): ViewTransform {
+    const { minZoom, maxZoom, pinchClosed, pinchOpen, maxRotation } = this.options;
+
+    let target = IDENTITY_VIEW_TRANSFORM;
+    if (landmarks && landmarks.length >= 21) {
+      const t = Math.min(1, Math.max(0, (pinchDistance(landmarks) - pinchClosed) / (pinchOpen - pinchClosed)));
+      // Counter-rotate so the hand stays upright, like a camera mounted on it
+      const rotation = Math.min(maxRotation, Math.max(-maxRotation, -handRoll(landmarks, mirrored)));
+      target = { zoom: minZoom + t * (maxZoom - minZoom), rotation };
+    }
+
+    const smoothed = this.filter.filter({ x: target.zoom, y: target.rotation }, timestamp);
+    this.current = { zoom: smoothed.x, rotation: smoothed.y };
+    return this.current;
+  }
+
+  /**
+   * Current transform, with zoom raised far enough that rotating a centered
+   * frame never opens empty corners on the canvas
+   * Once the frame is shifted toward the anchor it can still uncover the canvas:
+   * only the clamp edge mode keeps the view inside the frame (see clampLookAt),
+   * the other edge modes fill the uncovered area their own way
+   */
+  getTransform(width: number, height: number): ViewTransform {
+    const zoom = Math.min(
+      Math.max(this.options.maxZoom, 1),
+      Math.max(this.current.zoom, coverZoom(width, height, this.current.rotation))
+    );
+    return { zoom, rotation: this.current.rotation };
+  }
+
+  reset(): void {
+    this.filter.reset();
+    this.current = { ...IDENTITY_VIEW_TRANSFORM };
+  }
+}
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Installed @mediapipe/tasks-vision version, injected by vite.config.ts
+declare const __TASKS_VISION_VERSION__: string;
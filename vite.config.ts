@@ -1,5 +1,49 @@
-import { defineConfig } from 'vite';
+import { readFileSync, readdirSync } from 'node:fs';
+import { Plugin, defineConfig } from 'vite';
+
+// Version of the installed MediaPipe runtime, which names its self-hosted WASM directory
+const tasksVision = JSON.parse(
+  readFileSync(new URL('./node_modules/@mediapipe/tasks-vision/package.json', import.meta.url), 'utf8')
+);
+
+// Read by public/sw.js on install; paths are relative to the app's base
+const PRECACHE_MANIFEST = 'precache-manifest.json';
+
+/**
+ * Files under public/<dir>, as paths relative to public/
+ */
+function publicFiles(dir: string): string[] {
+  return readdirSync(new URL(`./public/${dir}`, import.meta.url), { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory() ? publicFiles(`${dir}/${entry.name}`) : [`${dir}/${entry.name}`]
+  );
+}
+
+/**
+ * List the built bundle and the self-hosted MediaPipe files for the service worker to precache,
+ * so the app works offline after the first visit even though the worker didn't control that page load
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = [
+        ...Object.keys(bundle).filter((fileName) => !fileName.endsWith('.html')),
+        ...publicFiles('mediapipe'),
+      ];
+      this.emitFile({ type: 'asset', fileName: PRECACHE_MANIFEST, source: JSON.stringify(files.sort(), null, 2) });
+    },
+  };
+}
 
 export default defineConfig({
   base: '/finger-camera/',
+  plugins: [precacheManifest()],
+  // Workers are bundled as classic scripts, so MediaPipe can load its WASM glue with importScripts
+  worker: {
+    format: 'iife',
+  },
+  define: {
+    __TASKS_VISION_VERSION__: JSON.stringify(tasksVision.version),
+  },
 });